@@ -3,7 +3,8 @@ import type { User } from './types';
 import Login from './components/auth/Login';
 import SignUp from './components/auth/SignUp';
 import MainApp from './MainApp';
-import { supabase } from './lib/supabaseClient';
+import { repositories, type AuthSession, type AuthUser } from './lib/repositories';
+import { request } from './lib/requestPipeline';
 
 type AuthView = 'login' | 'signup';
 
@@ -12,67 +13,44 @@ const App: React.FC = () => {
   const [authView, setAuthView] = useState<AuthView>('login');
   const [loading, setLoading] = useState(true);
 
-  const loadUserProfile = useCallback(async (authUser: any) => {
+  const loadUserProfile = useCallback(async (authUser: AuthUser) => {
     if (authUser.aud !== 'authenticated') {
       console.log('User session detected, but email not confirmed.');
       setCurrentUser(null);
       return;
     }
     console.log(`📥 Loading profile for: ${authUser.id}`);
-    const { data: profile, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', authUser.id)
-      .maybeSingle();
-
-    if (error) {
-      console.error("Error fetching profile:", error.message);
+    try {
+      const profileUser = await request(() => repositories.profiles.getById(authUser.id));
+      if (profileUser) {
+        console.log(`✅ Profile loaded: ${profileUser.profile.username}`);
+        setCurrentUser({ ...profileUser, email: authUser.email });
+        return;
+      }
+    } catch (error) {
+      console.error("Error fetching profile:", error instanceof Error ? error.message : error);
       setCurrentUser(null);
-    } else if (profile) {
-      console.log(`✅ Profile loaded: ${profile.username}`);
-      setCurrentUser({
-        id: authUser.id,
-        email: authUser.email,
-        profile: {
-          username: profile.username,
-          bio: profile.bio,
-          privacy: profile.privacy,
-        }
-      });
-    } else {
-      const newUsername = authUser.user_metadata?.username;
-      if (newUsername) {
-        console.warn(`Profile for user ${authUser.id} not found. Attempting to create one.`);
-        const { data: newProfile, error: insertError } = await supabase
-          .from('profiles')
-          .insert({
-            id: authUser.id,
-            username: newUsername,
-            bio: authUser.user_metadata?.bio || '',
-            privacy: authUser.user_metadata?.privacy || 'public',
-          })
-          .select()
-          .single();
-
-        if (insertError) {
-          console.error("Error creating profile fallback:", insertError.message);
-          setCurrentUser(null);
-        } else if (newProfile) {
-          console.log("Successfully created fallback profile.");
-          setCurrentUser({
-            id: authUser.id,
-            email: authUser.email,
-            profile: {
-              username: newProfile.username,
-              bio: newProfile.bio,
-              privacy: newProfile.privacy,
-            }
-          });
-        }
-      } else {
-        console.error(`No profile found for user ${authUser.id} and username not found in metadata.`);
+      return;
+    }
+
+    const newUsername = authUser.user_metadata?.username;
+    if (newUsername) {
+      console.warn(`Profile for user ${authUser.id} not found. Attempting to create one.`);
+      try {
+        const newUser = await request(() => repositories.profiles.create(authUser.id, {
+          username: newUsername,
+          bio: authUser.user_metadata?.bio || '',
+          privacy: authUser.user_metadata?.privacy || 'public',
+        }));
+        console.log("Successfully created fallback profile.");
+        setCurrentUser({ ...newUser, email: authUser.email });
+      } catch (insertError) {
+        console.error("Error creating profile fallback:", insertError instanceof Error ? insertError.message : insertError);
         setCurrentUser(null);
       }
+    } else {
+      console.error(`No profile found for user ${authUser.id} and username not found in metadata.`);
+      setCurrentUser(null);
     }
   }, []);
   
@@ -80,17 +58,21 @@ const App: React.FC = () => {
     setLoading(true);
 
     // First, explicitly check for the current session. This is more reliable on initial load.
-    supabase.auth.getSession().then(async ({ data: { session } }) => {
+    repositories.auth.getSession().then(async (session) => {
       if (session?.user) {
         await loadUserProfile(session.user);
       } else {
         setCurrentUser(null);
       }
+    }).catch((error: unknown) => {
+      console.error("Error restoring session:", error instanceof Error ? error.message : error);
+      setCurrentUser(null);
+    }).finally(() => {
       setLoading(false); // We are done with the initial load.
     });
 
     // Then, set up a listener for any future auth changes.
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, session) => {
+    const unsubscribe = repositories.auth.onAuthStateChange(async (_event, session) => {
       console.log(`🔔 Auth state changed: ${_event}`);
       if (session?.user) {
         await loadUserProfile(session.user);
@@ -99,20 +81,23 @@ const App: React.FC = () => {
       }
     });
 
-    return () => {
-      subscription.unsubscribe();
-    };
+    return unsubscribe;
   }, [loadUserProfile]);
   
   const handleLogout = useCallback(async () => {
     // The onAuthStateChange listener will handle setting the user to null.
     // We still clear storage as per user request to ensure a clean slate.
     console.log('Logging out and clearing all storage...');
-    const { error } = await supabase.auth.signOut();
+    let error: unknown = null;
+    try {
+      await repositories.auth.signOut();
+    } catch (err) {
+      error = err;
+    }
     localStorage.clear();
     sessionStorage.clear();
     if (error) {
-        console.error('Error during sign out:', error.message);
+        console.error('Error during sign out:', error instanceof Error ? error.message : error);
         // If there was an error, we can still force a UI refresh to the root.
         window.location.href = '/';
     }
@@ -132,7 +117,13 @@ const App: React.FC = () => {
       // Only run the check if the app's state thinks a user is logged in.
       if (currentUser) {
         console.log('🩺 Tab is visible, re-validating session...');
-        const { data: { session }, error } = await supabase.auth.getSession();
+        let session: AuthSession | null = null;
+        let error: unknown = null;
+        try {
+          session = await repositories.auth.getSession();
+        } catch (err) {
+          error = err;
+        }
         
         // If there's no session, an error, or the user IDs don't match, it's a zombie/mismatched session.
         if (error || !session || session.user.id !== currentUser.id) {
@@ -154,20 +145,15 @@ const App: React.FC = () => {
 
   const handleProfileUpdate = async (updatedProfile: User['profile']) => {
       if (!currentUser) return;
-      const { data, error } = await supabase
-        .from('profiles')
-        .update({
-            bio: updatedProfile.bio,
-            privacy: updatedProfile.privacy,
-        })
-        .eq('id', currentUser.id)
-        .select()
-        .single();
-    
-      if (error) {
+      try {
+          const { profile } = await request(() => repositories.profiles.update(currentUser.id, {
+              bio: updatedProfile.bio,
+              privacy: updatedProfile.privacy,
+              region_id: updatedProfile.region_id ?? null,
+          }));
+          setCurrentUser(prevUser => prevUser ? { ...prevUser, profile: { ...prevUser.profile, bio: profile.bio, privacy: profile.privacy, region_id: profile.region_id } } : null);
+      } catch (error) {
           console.error("Error updating profile:", error);
-      } else if (data) {
-          setCurrentUser(prevUser => prevUser ? { ...prevUser, profile: { ...prevUser.profile, bio: data.bio, privacy: data.privacy } } : null);
       }
   };
   
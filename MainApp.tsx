@@ -1,18 +1,44 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { User, Event, VibeMessage, Profile } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { User, Event, MapBounds, VibeFilter, EventFormValues, VibeSeries, JoinRequest } from './types';
 import Header from './components/layout/Header';
 import MapView, { type MapViewRef } from './components/map/MapView';
+import MapFilterBar from './components/map/MapFilterBar';
 import HistoryPanel from './components/history/HistoryPanel';
 import FloatingActionButton from './components/common/FloatingActionButton';
 import CreateEventButton from './components/common/CreateEventButton';
 import CreateEventModal from './components/events/CreateEventModal';
+import DraftPlacementBanner from './components/events/DraftPlacementBanner';
 import MyLocationButton from './components/common/MyLocationButton';
 import VibeChatPanel from './components/vibes/VibeChatPanel';
 import SettingsModal from './components/profile/SettingsModal';
 import ProfileModal from './components/profile/ProfileModal';
 import ProfileQuickView from './components/layout/ProfileQuickView';
-import { supabase } from './lib/supabaseClient';
+import InviteModal from './components/vibes/InviteModal';
+import RedeemInviteModal from './components/vibes/RedeemInviteModal';
+import VibeListView from './components/vibes/VibeListView';
+import TagReviewModal from './components/tags/TagReviewModal';
+import { repositories } from './lib/repositories';
+import { request, onSessionExpired, describeRequestError, RequestError } from './lib/requestPipeline';
+import { createEventTileCache } from './lib/eventTiles';
+import { applyMembershipChange } from './lib/eventSync';
+import { isVibeHost, vibeStatusAt, canExtendVibe, EXTEND_MINUTES, MAX_DURATION_MINUTES } from './lib/vibes';
+import { resolveRegion, validateVibeSpot } from './lib/regions';
+import { newTemplate, type TemplateFields, type VibeDraft } from './lib/vibeTemplates';
+import { takeInviteCodeFromUrl } from './lib/invites';
+import { readOpenChatFromUrl, writeOpenChatToUrl } from './lib/chatLocation';
+import { changeMatchesFilter, readFilterFromUrl, writeFilterToUrl } from './lib/vibeFilter';
+import { useVibeMessages } from './lib/useVibeMessages';
+import { useActivityHeatmap } from './lib/useActivityHeatmap';
+import { ACTIVITY_WINDOWS } from './lib/activity';
+import { distanceMeters } from './lib/geo';
+
+// What the edit form is open for: one vibe on its own, or every upcoming date of a series.
+type VibeEdit =
+  | { mode: 'occurrence'; event: Event }
+  | { mode: 'series'; event: Event; series: VibeSeries };
+
+const TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 interface MainAppProps {
   user: User;
@@ -21,24 +47,60 @@ interface MainAppProps {
 }
 
 const MainApp: React.FC<MainAppProps> = ({ user, onLogout, onProfileUpdate }) => {
+  const region = resolveRegion(user.profile.region_id);
   const [isHistoryVisible, setIsHistoryVisible] = useState(false);
   const [isCreateMode, setIsCreateMode] = useState(false);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [newEventCoords, setNewEventCoords] = useState<{ lat: number; lng: number } | null>(null);
+  // Set when creating from a template or past vibe; the form opens pre-filled once the pin is placed.
+  const [createDraft, setCreateDraft] = useState<VibeDraft | null>(null);
+  const [editing, setEditing] = useState<VibeEdit | null>(null);
+  const [invitingVibe, setInvitingVibe] = useState<Event | null>(null);
+  const [isRedeemModalOpen, setIsRedeemModalOpen] = useState(false);
+  const [canModerateTags, setCanModerateTags] = useState(false);
+  const [isTagReviewOpen, setIsTagReviewOpen] = useState(false);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [events, setEvents] = useState<Event[]>([]);
-  const [activeVibe, setActiveVibe] = useState<Event | null>(null);
+  const [viewMode, setViewMode] = useState<'map' | 'list'>('map');
+  const [filter, setFilter] = useState<VibeFilter>(readFilterFromUrl);
+  // Every open vibe the user belongs to, and the one the chat panel shows.
+  const [myVibes, setMyVibes] = useState<Event[]>([]);
+  const [selectedVibeId, setSelectedVibeId] = useState<number | null>(null);
   const [isChatVisible, setIsChatVisible] = useState(false);
-  const [chatMessages, setChatMessages] = useState<VibeMessage[]>([]);
-  const [activeVibeParticipants, setActiveVibeParticipants] = useState<Profile[]>([]);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
   const [viewedUser, setViewedUser] = useState<User | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Vibes the user has asked to join and is waiting on.
+  const [pendingJoinIds, setPendingJoinIds] = useState<Set<number>>(new Set());
+  // Requests waiting on the user, for vibes they host.
+  const [hostRequests, setHostRequests] = useState<JoinRequest[]>([]);
   const [isProfileQuickViewOpen, setIsProfileQuickViewOpen] = useState(false);
   const mapViewRef = useRef<MapViewRef>(null);
+  // The cache holds only events matching the filter, so it is cleared whenever the filter changes.
+  const filterRef = useRef(filter);
+  const tileCacheRef = useRef(createEventTileCache(bounds => request(() => repositories.events.listActiveInBounds(bounds, filterRef.current))));
+  const viewportRef = useRef<MapBounds | null>(null);
+  const [isZoomedOutTooFar, setIsZoomedOutTooFar] = useState(false);
+  // The heatmap has no tile cache; it reloads for each viewport while it is on.
+  const [viewport, setViewport] = useState<MapBounds | null>(null);
+  const [activityWindowId, setActivityWindowId] = useState<string | null>(null);
+  const [nearMeMeters, setNearMeMeters] = useState<number | null>(null);
+  const activityPoints = useActivityHeatmap(
+    viewport,
+    ACTIVITY_WINDOWS.find(option => option.id === activityWindowId) ?? null,
+    fetchError => setError(describeRequestError(fetchError, "Failed to load the activity heatmap.")),
+  );
   const [sessionValid, setSessionValid] = useState(true);
 
+  // The chat that was open before a reload, until myVibes has loaded and it can be reopened.
+  const chatToRestoreRef = useRef(readOpenChatFromUrl());
+
+  const addMyVibe = (vibe: Event) => {
+    setMyVibes(prev => [...prev.filter(v => v.id !== vibe.id), vibe]);
+  };
+
   // REMOVED: Redundant session heartbeat - App.tsx already handles this
   // MainApp only renders when session is valid, so we start with sessionValid = true
   useEffect(() => {
@@ -46,166 +108,269 @@ const MainApp: React.FC<MainAppProps> = ({ user, onLogout, onProfileUpdate }) =>
     // No need to check session here - App.tsx already validated it
   }, [user]);
 
-  // Fetch events with better error handling
+  // The request pipeline has already tried refreshing the token by the time this fires.
+  useEffect(() => onSessionExpired(() => {
+    setError("Session expired. Please log in again.");
+    setTimeout(() => onLogout(), 2000);
+  }), [onLogout]);
+
   useEffect(() => {
-    if (!sessionValid) return;
-    
-    const fetchEvents = async () => {
-        try {
-            const { data, error: fetchError } = await supabase
-                .from('events')
-                .select('*, creator:profiles(username)')
-                .eq('status', 'active');
-            
-            if (fetchError) {
-                console.error("Error fetching events", fetchError);
-                
-                // Check if it's an auth error
-                if (fetchError.message.includes('JWT') || fetchError.message.includes('session')) {
-                  setError("Session expired. Please log in again.");
-                  setTimeout(() => onLogout(), 2000);
-                } else {
-                  setError("Failed to load events. Please refresh the page.");
-                }
-            } else {
-                setEvents(data as Event[]);
-                setError(null);
-            }
-        } catch (err) {
-            console.error("Unexpected error:", err);
-            setError("An unexpected error occurred while loading events.");
+    request(() => repositories.tags.canModerate())
+      .then(setCanModerateTags)
+      .catch(error => console.error("Error checking tag moderation", error));
+  }, [user.id]);
+
+  // Load events for the visible map area with better error handling
+  const loadViewport = useCallback(async (bounds: MapBounds) => {
+    viewportRef.current = bounds;
+    setViewport(bounds);
+    try {
+        const canShowEvents = await tileCacheRef.current.loadViewport(bounds);
+        setIsZoomedOutTooFar(!canShowEvents);
+        setEvents(tileCacheRef.current.events());
+        setError(null);
+    } catch (fetchError) {
+        console.error("Error fetching events", fetchError);
+        setError(describeRequestError(fetchError, "Failed to load events. Please refresh the page."));
+    }
+  }, []);
+
+  useEffect(() => {
+    writeFilterToUrl(filter);
+    if (filterRef.current === filter) return;
+    filterRef.current = filter;
+    tileCacheRef.current.clear();
+    setEvents([]);
+    if (viewportRef.current) loadViewport(viewportRef.current);
+  }, [filter, loadViewport]);
+
+  // Membership comes from the server rather than from what this tab has done, so it
+  // survives reloads and is reconciled after a reconnect.
+  const loadMyVibes = useCallback(async () => {
+    try {
+        const mine = await request(() => repositories.events.listMine());
+        setMyVibes(mine);
+        const chatId = chatToRestoreRef.current;
+        chatToRestoreRef.current = null;
+        if (chatId !== null && mine.some(v => v.id === chatId)) {
+            console.log(`💬 Reopening chat for vibe ${chatId}`);
+            setSelectedVibeId(chatId);
+            setIsChatVisible(true);
         }
-    };
-    fetchEvents();
-
-    const eventsSubscription = supabase.channel('public:events')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'events' }, payload => {
-        console.log('Change received!', payload)
-        fetchEvents();
-      })
-      .subscribe();
-      
-    return () => {
-        supabase.removeChannel(eventsSubscription);
-    };
-  }, [sessionValid, onLogout]);
-  
+    } catch (fetchError) {
+        console.error("Error fetching your vibes", fetchError);
+        setError(describeRequestError(fetchError, "Failed to load your vibes. Please refresh the page."));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (sessionValid) loadMyVibes();
+  }, [sessionValid, loadMyVibes]);
+
+  useEffect(() => {
+    if (chatToRestoreRef.current === null) writeOpenChatToUrl(isChatVisible ? selectedVibeId : null);
+  }, [isChatVisible, selectedVibeId]);
+
   useEffect(() => {
     if (!sessionValid) return;
-    
-    let messagesSubscription: any = null;
-    if (isChatVisible && activeVibe) {
-        const fetchMessages = async () => {
-            try {
-                const { data, error } = await supabase
-                    .from('messages')
-                    .select('*, sender:profiles(username)')
-                    .eq('event_id', activeVibe.id)
-                    .order('created_at');
-                    
-                if (error) {
-                    console.error("Error fetching messages", error);
-                    if (error.message.includes('JWT') || error.message.includes('session')) {
-                      setError("Session expired. Please log in again.");
-                      setTimeout(() => onLogout(), 2000);
-                    }
-                } else {
-                    setChatMessages(data as any[] as VibeMessage[]);
-                }
-            } catch (err) {
-                console.error("Unexpected error fetching messages:", err);
-            }
-        };
-        fetchMessages();
-
-        messagesSubscription = supabase.channel(`public:messages:event_id=eq.${activeVibe.id}`)
-            .on('postgres_changes', { 
-                event: 'INSERT', 
-                schema: 'public', 
-                table: 'messages', 
-                filter: `event_id=eq.${activeVibe.id}` 
-            }, 
-            async (payload) => {
-                try {
-                    const { data: profile, error } = await supabase
-                        .from('profiles')
-                        .select('username')
-                        .eq('id', payload.new.sender_id)
-                        .single();
-                        
-                    if (error) {
-                        console.error(error);
-                        setChatMessages(msgs => [...msgs, { 
-                            ...payload.new, 
-                            sender: { username: 'Unknown' } 
-                        } as VibeMessage]);
-                    } else {
-                        setChatMessages(msgs => [...msgs, { 
-                            ...payload.new, 
-                            sender: { username: profile.username } 
-                        } as VibeMessage]);
-                    }
-                } catch (err) {
-                    console.error('Error handling new message:', err);
-                }
-            })
-            .subscribe();
-    }
-    return () => {
-        if(messagesSubscription) {
-            supabase.removeChannel(messagesSubscription);
+
+    // Apply each change in place; a reload is only needed after a reconnect,
+    // because changes that happened while the channel was down were never delivered.
+    return repositories.events.subscribe(change => {
+        // A vibe edited out of the filter leaves the map like one that closed.
+        const cached = change.new ? tileCacheRef.current.events().find(e => e.id === change.new!.id) : undefined;
+        const visible = !change.new || changeMatchesFilter(change.new, cached, filterRef.current);
+        tileCacheRef.current.applyChange(visible ? change : { type: 'DELETE', new: null, old: { id: change.new!.id } });
+        setEvents(tileCacheRef.current.events());
+        setMyVibes(prev => applyMembershipChange(prev, change, user.id));
+    }, () => {
+        console.log('🔄 Events channel reconnected, resyncing...');
+        tileCacheRef.current.clear();
+        if (viewportRef.current) loadViewport(viewportRef.current);
+        loadMyVibes();
+    });
+  }, [sessionValid, loadViewport, loadMyVibes, user.id]);
+
+  useEffect(() => {
+    if (!sessionValid) return;
+
+    request(() => repositories.joinRequests.listMine())
+      .then(mine => setPendingJoinIds(new Set(mine.map(r => r.event_id))))
+      .catch(error => console.error("Error fetching join requests", error));
+
+    return repositories.joinRequests.subscribe(joinRequest => {
+        if (joinRequest.user_id !== user.id) {
+            setHostRequests(prev => [
+                ...prev.filter(r => r.event_id !== joinRequest.event_id || r.user_id !== joinRequest.user_id),
+                ...(joinRequest.status === 'pending' ? [joinRequest] : []),
+            ]);
+            return;
         }
-    };
-  }, [isChatVisible, activeVibe, sessionValid, onLogout]);
 
-  const handleMapClickInCreateMode = (coords: { lat: number; lng: number }) => {
-    if (activeVibe) {
-        alert("You are already in a Vibe. Leave or close your current Vibe to create a new one.");
-        setIsCreateMode(false);
-        return;
+        setPendingJoinIds(prev => {
+            const next = new Set(prev);
+            if (joinRequest.status === 'pending') next.add(joinRequest.event_id);
+            else next.delete(joinRequest.event_id);
+            return next;
+        });
+        if (joinRequest.status === 'pending') return;
+
+        const event = tileCacheRef.current.events().find(e => e.id === joinRequest.event_id);
+        const title = event ? `"${event.title}"` : 'the vibe';
+        if (joinRequest.status === 'accepted') {
+            console.log(`✅ Join request for vibe ${joinRequest.event_id} accepted`);
+            setNotice(`You're in! The host accepted your request to join ${title}.`);
+            if (event) addMyVibe({ ...event, participants: [...new Set([...event.participants, user.id])] });
+        } else {
+            setNotice(`The host declined your request to join ${title}.`);
+        }
+    });
+  }, [sessionValid, user.id]);
+
+  const selectedVibe = myVibes.find(v => v.id === selectedVibeId) ?? null;
+  const { messages, unread } = useVibeMessages(
+    myVibes.map(v => v.id),
+    isChatVisible ? selectedVibeId : null,
+    user.id,
+    error => setError(describeRequestError(error, "Failed to load messages.")),
+  );
+
+  // Hosts get the request queue for every vibe they host.
+  const hostedIdsKey = myVibes.filter(v => isVibeHost(v, user.id)).map(v => v.id).sort((a, b) => a - b).join(',');
+  useEffect(() => {
+    setHostRequests([]);
+    if (!sessionValid || !hostedIdsKey) return;
+
+    hostedIdsKey.split(',').map(Number).forEach(eventId => {
+        request(() => repositories.joinRequests.listPending(eventId))
+          .then(pending => setHostRequests(prev => [...prev.filter(r => r.event_id !== eventId), ...pending]))
+          .catch(error => console.error("Error fetching join requests", error));
+    });
+  }, [sessionValid, hostedIdsKey]);
+
+  // The server moves vibes to ended/closed on its own schedule, and the realtime
+  // update above then drops them from myVibes; close the chat if it was showing one.
+  useEffect(() => {
+    if (selectedVibeId !== null && !selectedVibe) {
+        console.log(`🏁 Vibe ${selectedVibeId} is no longer yours or open, leaving chat.`);
+        setSelectedVibeId(null);
+        setIsChatVisible(false);
+    }
+  }, [selectedVibeId, selectedVibe]);
+
+  // Resolves to whether the code worked, so the code form knows whether to clear itself.
+  const handleRedeemInvite = useCallback(async (code: string) => {
+    try {
+        const event = await request(() => repositories.invites.redeem(code));
+        // The vibe was invisible until now, so no realtime insert is coming for it.
+        tileCacheRef.current.applyChange({ type: 'UPDATE', new: event, old: null });
+        setEvents(tileCacheRef.current.events());
+        mapViewRef.current?.flyTo([event.lat, event.lng]);
+        setIsRedeemModalOpen(false);
+        setError(null);
+        console.log(`🎟️ Invite redeemed for vibe ${event.id}`);
+        return true;
+    } catch (error) {
+        console.error("Error redeeming invite:", error);
+        setError(describeRequestError(error, "Failed to open that invite. Please try again."));
+        return false;
     }
+  }, []);
+
+  // Opening an invite link lands here with ?invite=CODE in the URL.
+  useEffect(() => {
+    const code = takeInviteCodeFromUrl();
+    if (code) handleRedeemInvite(code);
+  }, [handleRedeemInvite]);
+
+  const handleMapClickInCreateMode = (coords: { lat: number; lng: number }) => {
     setNewEventCoords(coords);
     setIsCreateModalOpen(true);
   };
 
-  const handleCreateEvent = async (eventData: Omit<Event, 'id' | 'creator' | 'creator_id' | 'lat' | 'lng' | 'participants'>) => {
+  const handleCreateEvent = async ({ recurrence, ...eventData }: EventFormValues) => {
     if (!newEventCoords || !sessionValid) return;
 
     try {
-        const { data: newEvent, error } = await supabase
-            .from('events')
-            .insert({
-                ...eventData,
-                status: 'active',
-                lat: newEventCoords.lat,
-                lng: newEventCoords.lng,
-                creator_id: user.id,
-                participants: [user.id],
-            })
-            .select('*, creator:profiles(username)')
-            .single();
-        
-        if (error) {
-            console.error("Error creating event:", error);
-            if (error.message.includes('JWT') || error.message.includes('session')) {
-              setError("Session expired. Please log in again.");
-              setTimeout(() => onLogout(), 2000);
-            } else {
-              setError("Failed to create event. Please try again.");
-            }
-        } else if (newEvent) {
-            setActiveVibe(newEvent as Event);
-            setIsCreateModalOpen(false);
-            setNewEventCoords(null);
-            setIsCreateMode(false);
-            setError(null);
-        }
-    } catch (err) {
-        console.error("Unexpected error creating event:", err);
-        setError("Failed to create event. Please try again.");
+        // A repeating vibe is created as a series; the server adds its first occurrence.
+        const newEvent = recurrence
+          ? await request(() => repositories.series.create({
+              title: eventData.title,
+              description: eventData.description,
+              topics: eventData.topics,
+              is_public: eventData.is_public,
+              duration: eventData.duration,
+              max_participants: eventData.max_participants ?? null,
+              requires_approval: eventData.requires_approval ?? false,
+              first_start: eventData.event_time,
+              time_zone: TIME_ZONE,
+              recurrence,
+              lat: newEventCoords.lat,
+              lng: newEventCoords.lng,
+              creator_id: user.id,
+          }), { retry: false })
+          : await request(() => repositories.events.create({
+              ...eventData,
+              // The server derives the real status from the time; this just matches it.
+              status: vibeStatusAt(eventData),
+              lat: newEventCoords.lat,
+              lng: newEventCoords.lng,
+              creator_id: user.id,
+              participants: [user.id],
+          }), { retry: false });
+        addMyVibe(newEvent);
+        setSelectedVibeId(newEvent.id);
+        setIsCreateModalOpen(false);
+        setNewEventCoords(null);
+        setIsCreateMode(false);
+        setCreateDraft(null);
+        setError(null);
+    } catch (error) {
+        console.error("Error creating event:", error);
+        setError(describeRequestError(error, "Failed to create event. Please try again."));
     }
   };
   
+  const handleHostAgain = (draft: VibeDraft) => {
+    setIsHistoryVisible(false);
+    setCreateDraft(draft);
+    setViewMode('map');
+    setIsCreateMode(true);
+    if (draft.location) mapViewRef.current?.flyTo([draft.location.lat, draft.location.lng]);
+  };
+
+  const cancelDraft = () => {
+    setCreateDraft(null);
+    setIsCreateMode(false);
+  };
+
+  // Without a location there is nothing to measure from, so the filter waits for one.
+  const shownEvents = useMemo(() => (
+    nearMeMeters !== null && userLocation
+      ? events.filter(event => distanceMeters(userLocation, [event.lat, event.lng]) <= nearMeMeters)
+      : events
+  ), [events, nearMeMeters, userLocation]);
+
+  // The same check MapView applies to clicks.
+  const isDraftSpotInRange = !!createDraft?.location && !!userLocation
+    && !validateVibeSpot(region, userLocation, [createDraft.location.lat, createDraft.location.lng]);
+
+  const handleSaveTemplate = async (fields: TemplateFields) => {
+    try {
+        const template = await request(() => repositories.templates.create(newTemplate(fields, newEventCoords)), { retry: false });
+        setNotice(`Saved "${template.title}" as a template. Find it under History.`);
+        console.log(`📋 Saved "${template.title}" as a template`);
+    } catch (error) {
+        console.error("Error saving template:", error);
+        setError(describeRequestError(error, "Failed to save the template. Please try again."));
+    }
+  };
+
+  const handleSelectFromList = (event: Event) => {
+    setViewMode('map');
+    mapViewRef.current?.flyTo([event.lat, event.lng]);
+  };
+
   const handleRecenterMap = () => {
     mapViewRef.current?.recenter();
   };
@@ -213,170 +378,237 @@ const MainApp: React.FC<MainAppProps> = ({ user, onLogout, onProfileUpdate }) =>
   const handleCloseEvent = async (eventId: number) => {
     if (!sessionValid) return;
     
+    // A vibe that hasn't started yet is called off rather than closed.
+    const status = events.find(e => e.id === eventId)?.status === 'scheduled' ? 'cancelled' : 'closed';
     try {
-        const { error } = await supabase
-            .from('events')
-            .update({ status: 'closed' })
-            .eq('id', eventId);
-            
-        if (error) {
-            console.error("Error closing event:", error);
-            if (error.message.includes('JWT') || error.message.includes('session')) {
-              setError("Session expired. Please log in again.");
-              setTimeout(() => onLogout(), 2000);
-            }
+        await request(() => repositories.events.update(eventId, { status }));
+        setMyVibes(prev => prev.filter(v => v.id !== eventId));
+    } catch (error) {
+        console.error("Error closing event:", error);
+        setError(describeRequestError(error, "Failed to close vibe. Please try again."));
+    }
+  };
+
+  const handleEditEvent = (eventId: number) => {
+    const event = events.find(e => e.id === eventId);
+    if (event) setEditing({ mode: 'occurrence', event });
+  };
+
+  const handleEditSeries = async (eventId: number) => {
+    const event = events.find(e => e.id === eventId);
+    if (!event?.series_id || !sessionValid) return;
+
+    try {
+        const series = await request(() => repositories.series.get(event.series_id!));
+        if (series.creator_id !== user.id) {
+            setError("Only the series' host can change the whole series.");
+            return;
+        }
+        setEditing({ mode: 'series', event, series });
+    } catch (error) {
+        console.error("Error loading series:", error);
+        setError(describeRequestError(error, "Failed to load this series. Please try again."));
+    }
+  };
+
+  const handleSubmitEdit = async ({ recurrence, event_time, ...values }: EventFormValues) => {
+    if (!editing || !sessionValid) return;
+
+    const fields = {
+        title: values.title,
+        description: values.description,
+        topics: values.topics,
+        is_public: values.is_public,
+        duration: values.duration,
+        max_participants: values.max_participants ?? null,
+        requires_approval: values.requires_approval ?? false,
+    };
+    // The start is only sent when it changed, so a live vibe can still be edited. The
+    // form works in whole minutes while stored times may carry seconds.
+    const toMinute = (time: string) => Math.floor(new Date(time).getTime() / 60000);
+    const startChanged = toMinute(event_time) !== toMinute(editing.event.event_time);
+    try {
+        if (editing.mode === 'series') {
+            // Moving the start re-anchors the series from the new date onwards.
+            await request(() => repositories.series.update(editing.series.id, {
+                ...fields,
+                recurrence: recurrence ?? editing.series.recurrence,
+                ...(startChanged ? { first_start: event_time, time_zone: TIME_ZONE } : {}),
+            }));
         } else {
-            if (activeVibe?.id === eventId) {
-              setActiveVibe(null);
-              setIsChatVisible(false);
-            }
+            await request(() => repositories.events.update(editing.event.id, {
+                ...fields,
+                ...(startChanged ? { event_time } : {}),
+            }));
+        }
+        setEditing(null);
+        setError(null);
+    } catch (error) {
+        console.error("Error updating vibe:", error);
+        setError(describeRequestError(error, "Failed to save your changes. Please try again."));
+    }
+  };
+
+  const handleMoveEvent = async (eventId: number, coords: { lat: number; lng: number }) => {
+    if (!sessionValid) return;
+
+    try {
+        await request(() => repositories.events.update(eventId, coords));
+    } catch (error) {
+        console.error("Error moving event:", error);
+        setError(describeRequestError(error, "Failed to move vibe. Please try again."));
+        // Put the pin back where the vibe actually is.
+        setEvents(tileCacheRef.current.events());
+    }
+  };
+
+  const handleEndSeries = async (seriesId: number) => {
+    if (!sessionValid) return;
+    if (!window.confirm("End this series? The upcoming vibe and all later dates will be cancelled.")) return;
+
+    try {
+        const series = await request(() => repositories.series.get(seriesId));
+        if (series.creator_id !== user.id) {
+            setError("Only the series' host can end the series.");
+            return;
         }
-    } catch (err) {
-        console.error("Unexpected error closing event:", err);
+        await request(() => repositories.series.cancel(seriesId));
+        setMyVibes(prev => prev.filter(v => v.series_id !== seriesId || v.status !== 'scheduled'));
+    } catch (error) {
+        console.error("Error ending series:", error);
+        setError(describeRequestError(error, "Failed to end the series. Please try again."));
     }
   };
 
+  const handleManageInvites = (eventId: number) => {
+    const event = events.find(e => e.id === eventId);
+    if (event) setInvitingVibe(event);
+  };
+
   const handleExtendEvent = async (eventId: number) => {
       if (!sessionValid) return;
       
       const event = events.find(e => e.id === eventId);
       if (!event) return;
+      const tooLong = `A vibe can last at most ${MAX_DURATION_MINUTES / 60} hours.`;
+      if (!canExtendVibe(event)) {
+          setError(tooLong);
+          return;
+      }
       
       try {
-          const { error } = await supabase
-              .from('events')
-              .update({ duration: event.duration + 15 })
-              .eq('id', eventId);
-              
-          if (error) {
-              console.error("Error extending event:", error);
-              if (error.message.includes('JWT') || error.message.includes('session')) {
-                setError("Session expired. Please log in again.");
-                setTimeout(() => onLogout(), 2000);
-              }
-          }
-      } catch (err) {
-          console.error("Unexpected error extending event:", err);
+          await request(() => repositories.events.update(eventId, { duration: event.duration + EXTEND_MINUTES }));
+      } catch (error) {
+          console.error("Error extending event:", error);
+          // 23514 is events_duration_check, e.g. when another host extended it first.
+          const isTooLong = error instanceof RequestError && error.code === '23514';
+          setError(isTooLong ? tooLong : describeRequestError(error, "Failed to extend vibe. Please try again."));
       }
   };
 
   const handleJoinVibe = async (eventId: number) => {
     if (!sessionValid) return;
-    
-    if (activeVibe) {
-        alert("You're already in a Vibe. Please leave it before joining another.");
-        return;
-    }
-    const event = events.find(e => e.id === eventId);
-    if (!event) return;
 
+    const event = events.find(e => e.id === eventId);
     try {
-        const newParticipants = [...event.participants, user.id];
-        const { data, error } = await supabase
-            .from('events')
-            .update({ participants: newParticipants })
-            .eq('id', eventId)
-            .select('*, creator:profiles(username)')
-            .single();
-            
-        if (error) {
-            console.error("Error joining vibe:", error);
-            if (error.message.includes('JWT') || error.message.includes('session')) {
-              setError("Session expired. Please log in again.");
-              setTimeout(() => onLogout(), 2000);
-            }
-        } else {
-            setActiveVibe(data as Event);
+        if (event?.requires_approval && !isVibeHost(event, user.id)) {
+            await request(() => repositories.joinRequests.request(eventId));
+            setPendingJoinIds(prev => new Set(prev).add(eventId));
+            setNotice(`Request sent. We'll let you know when the host answers.`);
+            return;
         }
-    } catch (err) {
-        console.error("Unexpected error joining vibe:", err);
+        addMyVibe(await request(() => repositories.events.join(eventId)));
+        setSelectedVibeId(eventId);
+    } catch (error) {
+        console.error("Error joining vibe:", error);
+        setError(describeRequestError(error, "Failed to join vibe. Please try again."));
     }
   };
 
   const handleLeaveVibe = async (eventId: number) => {
       if (!sessionValid) return;
-      
-      const event = events.find(e => e.id === eventId);
-      if (!event) return;
 
       try {
-          const newParticipants = event.participants.filter(p => p !== user.id);
-          const { error } = await supabase
-              .from('events')
-              .update({ participants: newParticipants })
-              .eq('id', eventId);
-              
-          if (error) {
-              console.error("Error leaving vibe:", error);
-              if (error.message.includes('JWT') || error.message.includes('session')) {
-                setError("Session expired. Please log in again.");
-                setTimeout(() => onLogout(), 2000);
-              }
-          } else {
-              setActiveVibe(null);
-              setIsChatVisible(false);
-          }
-      } catch (err) {
-          console.error("Unexpected error leaving vibe:", err);
+          await request(() => repositories.events.leave(eventId));
+          setMyVibes(prev => prev.filter(v => v.id !== eventId));
+      } catch (error) {
+          console.error("Error leaving vibe:", error);
+          setError(describeRequestError(error, "Failed to leave vibe. Please try again."));
+      }
+  };
+
+  const handleDecideRequest = async (eventId: number, userId: string, accept: boolean) => {
+      if (!sessionValid) return;
+
+      try {
+          await request(() => repositories.joinRequests.decide(eventId, userId, accept));
+          setHostRequests(prev => prev.filter(r => r.event_id !== eventId || r.user_id !== userId));
+      } catch (error) {
+          console.error("Error answering join request:", error);
+          setError(describeRequestError(error, "Failed to answer the request. Please try again."));
+      }
+  };
+
+  const handleSetCohost = async (eventId: number, userId: string, isCohost: boolean) => {
+      if (!sessionValid) return;
+
+      try {
+          await request(() => repositories.events.setCohost(eventId, userId, isCohost));
+      } catch (error) {
+          console.error("Error changing co-host:", error);
+          setError(describeRequestError(error, "Failed to change co-hosts. Please try again."));
+      }
+  };
+
+  const handleTransferOwnership = async (eventId: number, userId: string) => {
+      if (!sessionValid) return;
+      if (!window.confirm("Make them the host? You'll stay on as a co-host.")) return;
+
+      try {
+          await request(() => repositories.events.transferOwnership(eventId, userId));
+      } catch (error) {
+          console.error("Error transferring vibe:", error);
+          setError(describeRequestError(error, "Failed to hand over the vibe. Please try again."));
       }
   };
 
   const handleSendMessage = async (text: string) => {
-      if (!activeVibe || !sessionValid) return;
+      if (!selectedVibe || !sessionValid) return;
 
       try {
-          const { error } = await supabase
-              .from('messages')
-              .insert({
-                  text,
-                  sender_id: user.id,
-                  event_id: activeVibe.id,
-              });
-              
-          if (error) {
-              console.error("Error sending message:", error);
-              if (error.message.includes('JWT') || error.message.includes('session')) {
-                setError("Session expired. Please log in again.");
-                setTimeout(() => onLogout(), 2000);
-              }
-          }
-      } catch (err) {
-          console.error("Unexpected error sending message:", err);
+          await request(() => repositories.messages.send({
+              text,
+              sender_id: user.id,
+              event_id: selectedVibe.id,
+          }), { retry: false });
+      } catch (error) {
+          console.error("Error sending message:", error);
+          setError(describeRequestError(error, "Failed to send message. Please try again."));
       }
   };
 
+  const handleViewChat = (eventId: number) => {
+      // The map can know about a membership before myVibes does, e.g. while it is loading.
+      const event = events.find(e => e.id === eventId);
+      if (event?.participants.includes(user.id) && !myVibes.some(v => v.id === eventId)) addMyVibe(event);
+      setSelectedVibeId(eventId);
+      setIsChatVisible(true);
+  };
+
   const handleOpenProfile = async (username: string) => {
       if (!sessionValid) return;
       
       try {
-          const { data: profile, error } = await supabase
-              .from('profiles')
-              .select('*')
-              .eq('username', username)
-              .single();
-              
-          if(error) {
-               console.error("Could not find user to view profile for:", username, error);
-               if (error.message.includes('JWT') || error.message.includes('session')) {
-                 setError("Session expired. Please log in again.");
-                 setTimeout(() => onLogout(), 2000);
-               }
-               return;
-          }
-          if (profile) {
-              const userToView: User = {
-                  id: profile.id,
-                  profile: {
-                    username: profile.username,
-                    bio: profile.bio,
-                    privacy: profile.privacy,
-                  }
-              };
-              setViewedUser(userToView);
-              setIsProfileModalOpen(true);
+          const userToView = await request(() => repositories.profiles.getByUsername(username));
+          if (!userToView) {
+              console.error("Could not find user to view profile for:", username);
+              return;
           }
-      } catch (err) {
-          console.error("Unexpected error opening profile:", err);
+          setViewedUser(userToView);
+          setIsProfileModalOpen(true);
+      } catch (error) {
+          console.error("Could not find user to view profile for:", username, error);
+          setError(describeRequestError(error, "Could not open that profile."));
       }
   };
 
@@ -399,6 +631,12 @@ const MainApp: React.FC<MainAppProps> = ({ user, onLogout, onProfileUpdate }) =>
         onLogout={onLogout} 
         onOpenSettings={() => setIsSettingsModalOpen(true)}
         onOpenProfileQuickView={() => setIsProfileQuickViewOpen(true)}
+        onOpenInviteCode={() => setIsRedeemModalOpen(true)}
+        onOpenTagReview={canModerateTags ? () => setIsTagReviewOpen(true) : undefined}
+        vibes={myVibes}
+        unreadCounts={unread}
+        selectedVibeId={isChatVisible ? selectedVibeId : null}
+        onSelectVibe={handleViewChat}
       />
       <main className="flex-grow relative">
         {error && (
@@ -420,20 +658,73 @@ const MainApp: React.FC<MainAppProps> = ({ user, onLogout, onProfileUpdate }) =>
                 </div>
             </div>
         )}
+        {notice && (
+            <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[2000] bg-green-100 border border-green-400 text-green-800 px-4 py-3 rounded shadow-lg max-w-md w-11/12" role="status">
+                <div className="flex justify-between items-center">
+                    <span className="flex-grow">{notice}</span>
+                    <button 
+                        onClick={() => setNotice(null)} 
+                        className="text-green-700 hover:text-green-900 ml-4 flex-shrink-0"
+                        aria-label="Dismiss notice"
+                    >
+                        <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+        )}
         <MapView 
           ref={mapViewRef}
+          region={region}
           isCreateMode={isCreateMode}
           userLocation={userLocation}
           onSetUserLocation={setUserLocation}
           onMapClick={handleMapClickInCreateMode}
-          events={events}
+          events={shownEvents}
           user={user}
-          activeVibe={activeVibe}
           onCloseEvent={handleCloseEvent}
           onExtendEvent={handleExtendEvent}
+          onEditEvent={handleEditEvent}
+          onEditSeries={handleEditSeries}
+          onEndSeries={handleEndSeries}
+          onMoveEvent={handleMoveEvent}
+          onManageInvites={handleManageInvites}
+          pendingJoinIds={pendingJoinIds}
           onJoinVibe={handleJoinVibe}
-          onViewChat={() => setIsChatVisible(true)}
+          onViewChat={handleViewChat}
+          onViewportChange={loadViewport}
+          isZoomedOutTooFar={isZoomedOutTooFar}
+          activityPoints={activityPoints}
+          activityWindowId={activityWindowId}
+          onActivityWindowChange={setActivityWindowId}
+          nearMeMeters={nearMeMeters}
+          onNearMeChange={setNearMeMeters}
         />
+        {viewMode === 'list' && (
+          <VibeListView
+            events={shownEvents}
+            user={user}
+            userLocation={userLocation}
+            isZoomedOutTooFar={isZoomedOutTooFar}
+            onSelectVibe={handleSelectFromList}
+          />
+        )}
+        <div className="absolute top-4 left-4 right-4 z-[1001] flex items-start gap-2 pointer-events-none">
+          <MapFilterBar filter={filter} onChange={setFilter} />
+          <div className="flex flex-shrink-0 bg-white rounded-full shadow-md p-1 pointer-events-auto" role="group" aria-label="View">
+            {(['map', 'list'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                aria-pressed={viewMode === mode}
+                className={`px-4 py-1 text-sm font-semibold rounded-full transition-colors ${viewMode === mode ? 'bg-green-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+              >
+                {mode === 'map' ? 'Map' : 'List'}
+              </button>
+            ))}
+          </div>
+        </div>
         
         <div className="fixed bottom-6 right-6 z-[1000] flex flex-col items-center space-y-4">
           <MyLocationButton 
@@ -441,7 +732,12 @@ const MainApp: React.FC<MainAppProps> = ({ user, onLogout, onProfileUpdate }) =>
             disabled={!userLocation} 
           />
           <CreateEventButton 
-            onClick={() => setIsCreateMode(!isCreateMode)} 
+            onClick={() => {
+              // Pins are placed on the map, so creating always goes back to it.
+              setIsCreateMode(!isCreateMode);
+              setCreateDraft(null);
+              setViewMode('map');
+            }} 
             isActive={isCreateMode} 
           />
            <FloatingActionButton onClick={() => setIsHistoryVisible(true)} />
@@ -451,7 +747,16 @@ const MainApp: React.FC<MainAppProps> = ({ user, onLogout, onProfileUpdate }) =>
             user={user} 
             isOpen={isHistoryVisible} 
             onClose={() => setIsHistoryVisible(false)} 
+            onHostAgain={handleHostAgain}
         />
+        {isCreateMode && createDraft && !newEventCoords && (
+          <DraftPlacementBanner
+            draft={createDraft}
+            canUseSavedSpot={isDraftSpotInRange}
+            onUseSavedSpot={() => createDraft.location && handleMapClickInCreateMode(createDraft.location)}
+            onCancel={cancelDraft}
+          />
+        )}
         {newEventCoords && (
           <CreateEventModal 
             isOpen={isCreateModalOpen}
@@ -459,20 +764,58 @@ const MainApp: React.FC<MainAppProps> = ({ user, onLogout, onProfileUpdate }) =>
               setIsCreateModalOpen(false);
               setNewEventCoords(null);
               setIsCreateMode(false);
+              setCreateDraft(null);
             }}
             onSubmit={handleCreateEvent}
+            initialValues={createDraft?.values}
+            onSaveTemplate={handleSaveTemplate}
+          />
+        )}
+        {editing && (
+          <CreateEventModal
+            key={`${editing.mode}-${editing.event.id}`}
+            isOpen
+            onClose={() => setEditing(null)}
+            onSubmit={handleSubmitEdit}
+            initialValues={{ ...editing.event, recurrence: editing.mode === 'series' ? editing.series.recurrence : null }}
+            heading={editing.mode === 'series' ? 'Edit Series' : 'Edit Vibe'}
+            submitLabel="Save Changes"
+            repeatMode={editing.mode === 'series' ? 'required' : 'none'}
           />
         )}
-        {activeVibe && (
+        {invitingVibe && (
+            <InviteModal
+                key={invitingVibe.id}
+                isOpen
+                onClose={() => setInvitingVibe(null)}
+                vibe={invitingVibe}
+            />
+        )}
+        <TagReviewModal
+            isOpen={isTagReviewOpen}
+            onClose={() => setIsTagReviewOpen(false)}
+        />
+        <RedeemInviteModal
+            isOpen={isRedeemModalOpen}
+            onClose={() => setIsRedeemModalOpen(false)}
+            onRedeem={handleRedeemInvite}
+        />
+        {selectedVibe && (
             <VibeChatPanel
+                key={selectedVibe.id}
                 isOpen={isChatVisible}
                 onClose={() => setIsChatVisible(false)}
-                vibe={activeVibe}
-                messages={chatMessages}
+                vibe={selectedVibe}
+                messages={messages[selectedVibe.id] ?? []}
                 user={user}
                 onSendMessage={handleSendMessage}
                 onLeaveVibe={handleLeaveVibe}
                 onViewProfile={handleOpenProfile}
+                onSetCohost={handleSetCohost}
+                onTransferOwnership={handleTransferOwnership}
+                joinRequests={hostRequests.filter(r => r.event_id === selectedVibe.id)}
+                onDecideRequest={handleDecideRequest}
+                onLocated={setUserLocation}
             />
         )}
         <SettingsModal 
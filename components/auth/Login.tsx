@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import Logo from '../common/Logo';
-import { supabase } from '../../lib/supabaseClient';
+import { repositories } from '../../lib/repositories';
 
 interface LoginProps {
   switchToSignUp: () => void;
@@ -24,14 +24,11 @@ const Login: React.FC<LoginProps> = ({ switchToSignUp }) => {
       return;
     }
 
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    if (error) {
-      setError(error.message);
-    } 
+    try {
+      await repositories.auth.signIn(email, password);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
     // On success, the onAuthStateChange listener in App.tsx will handle the redirect.
     setLoading(false);
   };
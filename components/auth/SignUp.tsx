@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import Logo from '../common/Logo';
-import { supabase } from '../../lib/supabaseClient';
+import { repositories } from '../../lib/repositories';
 
 interface SignUpProps {
   switchToLogin: () => void;
@@ -33,27 +33,22 @@ const SignUp: React.FC<SignUpProps> = ({ switchToLogin }) => {
       return;
     }
 
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        // This data will be available in the trigger to create the user's profile
-        data: {
-          username: username,
-          bio: '',
-          privacy: 'public'
-        }
-      }
-    });
-
-    if (error) {
-      setError(error.message);
-    } else if (data.user) {
-        if(data.user.identities?.length === 0){
+    try {
+      // This data will be available in the trigger to create the user's profile
+      const { user, alreadyRegistered } = await repositories.auth.signUp(email, password, {
+        username: username,
+        bio: '',
+        privacy: 'public'
+      });
+      if (user) {
+        if (alreadyRegistered) {
              setError('This username or email is already taken. Please try another one.');
         } else {
              setSuccessMessage('Success! Please check your email to confirm your account.');
         }
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
     }
     setLoading(false);
   };
@@ -1,13 +1,13 @@
 
 import React from 'react';
-import { supabase } from '../../lib/supabaseClient';
+import { repositories } from '../../lib/repositories';
 
 const EmergencyRefreshButton: React.FC = () => {
     const handleEmergencyRefresh = async () => {
         console.log('Emergency Refresh: Signing out and clearing all storage...');
         alert("Performing an emergency session reset. The app will reload.");
         try {
-            await supabase.auth.signOut();
+            await repositories.auth.signOut();
         } catch (e) {
             console.error('Sign out failed, proceeding with storage clear.', e);
         }
@@ -1,56 +1,168 @@
 
 import React, { useState } from 'react';
-import type { Event, Topic } from '../../types';
+import type { EventFormValues, RecurrenceRule, Topic } from '../../types';
+import { validateSchedule, MIN_DURATION_MINUTES, MAX_DURATION_MINUTES } from '../../lib/vibes';
+import { WEEKDAY_LABELS, describeRecurrence, maxRepeatInterval } from '../../lib/recurrence';
+import type { TemplateFields } from '../../lib/vibeTemplates';
+import TagPicker from '../tags/TagPicker';
+
+// 'none' hides the repeat options (editing one occurrence), 'required' drops "Never"
+// (editing a whole series).
+type RepeatMode = 'optional' | 'required' | 'none';
 
 interface CreateEventModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSubmit: (eventData: Omit<Event, 'id' | 'creator' | 'creator_id' | 'lat' | 'lng' | 'participants'>) => void;
+    onSubmit: (values: EventFormValues) => void;
+    // Prefills the form for editing; the parent should remount the modal per vibe.
+    initialValues?: Partial<EventFormValues>;
+    heading?: string;
+    submitLabel?: string;
+    repeatMode?: RepeatMode;
+    // Shows "Save as Template", which hands over the reusable parts without closing the form.
+    onSaveTemplate?: (fields: TemplateFields) => void;
 }
 
-const ALL_TOPICS: Topic[] = ['Food', 'Movies', 'Arts', 'Music', 'Sports', 'Tech', 'Social'];
+type Frequency = 'never' | RecurrenceRule['frequency'];
+
+const QUICK_STARTS = [0, 15, 30, 60]; // minutes from now
+const QUICK_DURATIONS = [30, 60, 120, 180];
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+const toLocalInputValue = (date: Date) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const minutesFromNow = (minutes: number) => toLocalInputValue(new Date(Date.now() + minutes * 60 * 1000));
+
+const formatDuration = (minutes: number) => {
+    const h = Math.floor(minutes / 60), m = minutes % 60;
+    return h === 0 ? `${m}m` : m === 0 ? `${h}h` : `${h}h ${m}m`;
+};
 
-const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose, onSubmit }) => {
-    const [title, setTitle] = useState('');
-    const [description, setDescription] = useState('');
-    const [selectedTopics, setSelectedTopics] = useState<Topic[]>([]);
-    const [isPublic, setIsPublic] = useState(true);
-    const [eventTimeOffset, setEventTimeOffset] = useState(5); // in minutes
-    const [duration, setDuration] = useState(60); // in minutes
+const TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const CreateEventModal: React.FC<CreateEventModalProps> = ({
+    isOpen,
+    onClose,
+    onSubmit,
+    initialValues,
+    heading = 'Create a New Vibe',
+    submitLabel = 'Create Vibe',
+    repeatMode = 'optional',
+    onSaveTemplate,
+}) => {
+    const initial: Partial<EventFormValues> = initialValues ?? {};
+    const initialStart = initial.event_time ? toLocalInputValue(new Date(initial.event_time)) : null;
+    const initialRule = initial.recurrence ?? null;
+
+    const [title, setTitle] = useState(initial.title ?? '');
+    const [description, setDescription] = useState(initial.description ?? '');
+    const [selectedTopics, setSelectedTopics] = useState<Topic[]>(initial.topics ?? []);
+    const [isPublic, setIsPublic] = useState(initial.is_public ?? true);
+    const [requiresApproval, setRequiresApproval] = useState(initial.requires_approval ?? false);
+    const [startsAt, setStartsAt] = useState(() => initialStart ?? minutesFromNow(5)); // local date/time input value
+    const [duration, setDuration] = useState(initial.duration ?? 60); // in minutes
+    const [maxParticipants, setMaxParticipants] = useState(initial.max_participants?.toString() ?? ''); // empty means no limit
+    const [frequency, setFrequency] = useState<Frequency>(initialRule?.frequency ?? (repeatMode === 'required' ? 'weekly' : 'never'));
+    const [interval, setRepeatInterval] = useState(initialRule?.interval ?? 1);
+    const [weekdays, setWeekdays] = useState<number[]>(initialRule?.weekdays ?? []);
+    const [until, setUntil] = useState(initialRule?.until ?? ''); // yyyy-mm-dd, empty means no end
     const [error, setError] = useState('');
 
-    const handleTopicClick = (topic: Topic) => {
-        setSelectedTopics(prev => 
-            prev.includes(topic) ? prev.filter(t => t !== topic) : [...prev, topic]
-        );
+    // Weekly rules without explicit days repeat on the weekday of the start.
+    const startDay = new Date(startsAt).getDay();
+    const selectedWeekdays = weekdays.length > 0 ? weekdays : (isNaN(startDay) ? [] : [startDay]);
+
+    const recurrence: RecurrenceRule | null = repeatMode === 'none' || frequency === 'never' ? null : {
+        frequency,
+        interval: Math.max(interval || 1, 1),
+        weekdays: frequency === 'weekly' ? selectedWeekdays : undefined,
+        until: until || null,
+    };
+
+    const handleWeekdayClick = (day: number) => {
+        const next = selectedWeekdays.includes(day) ? selectedWeekdays.filter(d => d !== day) : [...selectedWeekdays, day];
+        setWeekdays(next);
+    };
+
+    const capacity = maxParticipants ? parseInt(maxParticipants, 10) : null;
+    // Checked both when submitting and when saving a template.
+    const detailsError = !title.trim() || selectedTopics.length === 0
+        ? 'Please provide a title and add at least one tag.'
+        : capacity !== null && (isNaN(capacity) || capacity < 2) ? 'A vibe needs room for at least 2 people.' : null;
+
+    const handleSaveTemplate = () => {
+        const templateError = detailsError ?? validateSchedule(new Date(), duration);
+        setError(templateError ?? '');
+        if (templateError) return;
+        onSaveTemplate?.({
+            title,
+            description,
+            topics: selectedTopics,
+            is_public: isPublic,
+            requires_approval: requiresApproval,
+            duration,
+            max_participants: capacity,
+        });
     };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
-        if (!title.trim() || selectedTopics.length === 0) {
-            setError('Please provide a title and select at least one topic.');
+        if (detailsError) {
+            setError(detailsError);
             return;
         }
 
-        const eventTime = new Date(Date.now() + eventTimeOffset * 60 * 1000).toISOString();
+        const start = new Date(startsAt);
+        // An unchanged start may already be in the past, e.g. when editing a live vibe.
+        const scheduleError = startsAt === initialStart
+            ? validateSchedule(new Date(), duration)
+            : validateSchedule(start, duration);
+        if (scheduleError) {
+            setError(scheduleError);
+            return;
+        }
+        if (recurrence?.frequency === 'weekly' && selectedWeekdays.length === 0) {
+            setError('Pick at least one day for the vibe to repeat on.');
+            return;
+        }
+        if (recurrence && recurrence.interval > maxRepeatInterval(recurrence.frequency)) {
+            setError(`A vibe can repeat at most every ${maxRepeatInterval(recurrence.frequency)} ${recurrence.frequency === 'daily' ? 'days' : 'weeks'}.`);
+            return;
+        }
+        if (recurrence?.until && new Date(`${recurrence.until}T23:59`) < start) {
+            setError('The repeat end date is before the first vibe.');
+            return;
+        }
+        const eventTime = start.toISOString();
 
         onSubmit({
             title,
             description,
             topics: selectedTopics,
             is_public: isPublic,
+            requires_approval: requiresApproval,
             event_time: eventTime,
             duration,
-            status: 'active',
+            max_participants: capacity,
+            recurrence,
         });
         // Reset form for next time
-        setTitle('');
-        setDescription('');
-        setSelectedTopics([]);
-        setIsPublic(true);
-        setEventTimeOffset(5);
-        setDuration(60);
+        setTitle(initial.title ?? '');
+        setDescription(initial.description ?? '');
+        setSelectedTopics(initial.topics ?? []);
+        setIsPublic(initial.is_public ?? true);
+        setRequiresApproval(initial.requires_approval ?? false);
+        setStartsAt(initialStart ?? minutesFromNow(5));
+        setDuration(initial.duration ?? 60);
+        setMaxParticipants(initial.max_participants?.toString() ?? '');
+        setFrequency(initialRule?.frequency ?? (repeatMode === 'required' ? 'weekly' : 'never'));
+        setRepeatInterval(initialRule?.interval ?? 1);
+        setWeekdays(initialRule?.weekdays ?? []);
+        setUntil(initialRule?.until ?? '');
     };
 
     if (!isOpen) return null;
@@ -68,8 +180,8 @@ const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose, on
                 aria-modal="true"
                 aria-labelledby="create-event-title"
             >
-                <form onSubmit={handleSubmit} className="w-full max-w-lg bg-white rounded-2xl shadow-2xl p-6 sm:p-8 space-y-6 transform transition-all duration-300 scale-100">
-                    <h2 id="create-event-title" className="text-2xl font-bold text-gray-800">Create a New Vibe</h2>
+                <form onSubmit={handleSubmit} className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl p-6 sm:p-8 space-y-6 transform transition-all duration-300 scale-100">
+                    <h2 id="create-event-title" className="text-2xl font-bold text-gray-800">{heading}</h2>
                     {error && <p className="text-red-500 text-sm">{error}</p>}
                     
                     <div>
@@ -83,50 +195,105 @@ const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose, on
                     </div>
 
                     <div>
-                        <span className="text-sm font-medium text-gray-700">Topics</span>
+                        <span className="text-sm font-medium text-gray-700">Tags</span>
+                        <TagPicker selected={selectedTopics} onChange={setSelectedTopics} />
+                    </div>
+                    
+                    <div>
+                        <label htmlFor="starts-at" className="text-sm font-medium text-gray-700">When?</label>
                         <div className="mt-2 flex flex-wrap gap-2">
-                            {ALL_TOPICS.map(topic => (
-                                <button type="button" key={topic} onClick={() => handleTopicClick(topic)} className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors ${selectedTopics.includes(topic) ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}>
-                                    {topic}
+                            {QUICK_STARTS.map(min => (
+                                <button type="button" key={min} onClick={() => setStartsAt(minutesFromNow(min))} className="px-3 py-1.5 text-sm font-medium rounded-full transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300">
+                                    {min === 0 ? 'Now' : `In ${formatDuration(min)}`}
                                 </button>
                             ))}
                         </div>
+                        <input id="starts-at" type="datetime-local" value={startsAt} min={initialStart && initialStart < minutesFromNow(0) ? initialStart : minutesFromNow(0)} onChange={e => setStartsAt(e.target.value)} required className="mt-2 block w-full px-4 py-2 bg-gray-50 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                        <p className="mt-1 text-xs text-gray-500">Times are in your time zone ({TIME_ZONE}).</p>
                     </div>
-                    
-                    <div className="grid grid-cols-2 gap-x-4 gap-y-6">
-                         <div>
-                            <span className="text-sm font-medium text-gray-700">When?</span>
-                            <div className="mt-2 flex flex-wrap gap-2">
-                                {[5, 10, 15, 20, 25, 30].map(min => (
-                                    <button type="button" key={min} onClick={() => setEventTimeOffset(min)} className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors ${eventTimeOffset === min ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}>
-                                        In {min} min
-                                    </button>
-                                ))}
+
+                    <div>
+                        <label htmlFor="duration" className="text-sm font-medium text-gray-700">For how long?</label>
+                        <div className="mt-2 flex flex-wrap items-center gap-2">
+                            {QUICK_DURATIONS.map(d => (
+                                <button type="button" key={d} onClick={() => setDuration(d)} className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors ${duration === d ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}>
+                                    {formatDuration(d)}
+                                </button>
+                            ))}
+                            <div className="flex items-center gap-1">
+                                <input id="duration" type="number" min={MIN_DURATION_MINUTES} max={MAX_DURATION_MINUTES} step={15} value={Number.isNaN(duration) ? '' : duration} onChange={e => setDuration(parseInt(e.target.value, 10))} className="w-24 px-3 py-1.5 bg-gray-50 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                <span className="text-sm text-gray-500">min</span>
                             </div>
-                         </div>
-                         <div>
-                            <span className="text-sm font-medium text-gray-700">For how long?</span>
+                        </div>
+                    </div>
+
+                    {repeatMode !== 'none' && (
+                        <div>
+                            <span className="text-sm font-medium text-gray-700">Repeat</span>
                             <div className="mt-2 flex flex-wrap gap-2">
-                                {[30, 60, 90, 120].map(d => (
-                                    <button type="button" key={d} onClick={() => setDuration(d)} className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors ${duration === d ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}>
-                                        {d < 60 ? `${d}m` : `${d / 60}h`}
+                                {(repeatMode === 'required' ? ['daily', 'weekly'] as Frequency[] : ['never', 'daily', 'weekly'] as Frequency[]).map(f => (
+                                    <button type="button" key={f} onClick={() => setFrequency(f)} className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors capitalize ${frequency === f ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}>
+                                        {f}
                                     </button>
                                 ))}
                             </div>
-                         </div>
-                    </div>
+                            {recurrence && (
+                                <div className="mt-3 space-y-3">
+                                    {frequency === 'weekly' && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {WEEKDAY_LABELS.map((label, day) => (
+                                                <button type="button" key={label} onClick={() => handleWeekdayClick(day)} className={`w-11 py-1 text-xs font-medium rounded-full transition-colors ${selectedWeekdays.includes(day) ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}>
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                                        <label htmlFor="repeat-interval">Every</label>
+                                        <input id="repeat-interval" type="number" min={1} max={frequency === 'never' ? undefined : maxRepeatInterval(frequency)} value={Number.isNaN(interval) ? '' : interval} onChange={e => setRepeatInterval(parseInt(e.target.value, 10))} className="w-16 px-2 py-1 bg-gray-50 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                        <span>{frequency === 'daily' ? 'day(s)' : 'week(s)'}</span>
+                                        <label htmlFor="repeat-until" className="ml-2">until</label>
+                                        <input id="repeat-until" type="date" value={until} min={startsAt.slice(0, 10)} onChange={e => setUntil(e.target.value)} className="px-2 py-1 bg-gray-50 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                    </div>
+                                    <p className="text-xs text-gray-500">
+                                        {describeRecurrence(recurrence, startsAt)}. Only the next date shows on the map.
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+                    )}
 
+                    <div>
+                        <label htmlFor="max-participants" className="text-sm font-medium text-gray-700">Max people (Optional)</label>
+                        <input id="max-participants" type="number" min={2} value={maxParticipants} onChange={e => setMaxParticipants(e.target.value)} className="mt-1 block w-full px-4 py-2 bg-gray-50 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500" placeholder="No limit" />
+                    </div>
 
-                    <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium text-gray-700">Visibility</span>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <span className="text-sm font-medium text-gray-700">Visibility: {isPublic ? 'Public' : 'Invite only'}</span>
+                            <p className="text-xs text-gray-500">{isPublic ? 'Anyone nearby can see and join.' : 'Only people you send an invite link or code to can see it.'}</p>
+                        </div>
                         <button type="button" onClick={() => setIsPublic(!isPublic)} className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${isPublic ? 'bg-purple-600' : 'bg-gray-300'}`}>
                             <span className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${isPublic ? 'translate-x-6' : 'translate-x-1'}`} />
                         </button>
                     </div>
 
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <span className="text-sm font-medium text-gray-700">Approval required</span>
+                            <p className="text-xs text-gray-500">{requiresApproval ? 'People ask to join and you accept or decline.' : 'People can join straight away.'}</p>
+                        </div>
+                        <button type="button" onClick={() => setRequiresApproval(!requiresApproval)} className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${requiresApproval ? 'bg-purple-600' : 'bg-gray-300'}`} aria-pressed={requiresApproval} aria-label="Approval required">
+                            <span className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${requiresApproval ? 'translate-x-6' : 'translate-x-1'}`} />
+                        </button>
+                    </div>
+
                     <div className="flex justify-end space-x-4">
+                        {onSaveTemplate && (
+                            <button type="button" onClick={handleSaveTemplate} className="mr-auto px-4 py-2 text-purple-700 font-semibold rounded-lg hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2">Save as Template</button>
+                        )}
                         <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2">Cancel</button>
-                        <button type="submit" className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2">Create Vibe</button>
+                        <button type="submit" className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2">{submitLabel}</button>
                     </div>
                 </form>
             </div>
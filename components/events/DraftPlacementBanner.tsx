@@ -0,0 +1,41 @@
+import React from 'react';
+import type { VibeDraft } from '../../lib/vibeTemplates';
+
+interface DraftPlacementBannerProps {
+    draft: VibeDraft;
+    // Whether the spot the draft came with can take a vibe from where the user is.
+    canUseSavedSpot: boolean;
+    onUseSavedSpot: () => void;
+    onCancel: () => void;
+}
+
+// Shown in create mode when starting from a template or past vibe, until the pin is placed.
+const DraftPlacementBanner: React.FC<DraftPlacementBannerProps> = ({ draft, canUseSavedSpot, onUseSavedSpot, onCancel }) => {
+    return (
+        <div className="absolute bottom-6 left-4 right-24 sm:right-auto sm:max-w-sm z-[1000] bg-white rounded-xl shadow-lg p-4 space-y-3" role="status">
+            <p className="text-sm text-gray-700">
+                Hosting <span className="font-semibold">{draft.source}</span>. Tap the map inside the circle to place it.
+            </p>
+            {draft.location && !canUseSavedSpot && (
+                <p className="text-xs text-gray-500">The spot it had before is out of reach from where you are.</p>
+            )}
+            <div className="flex gap-2">
+                {draft.location && (
+                    <button
+                        type="button"
+                        onClick={onUseSavedSpot}
+                        disabled={!canUseSavedSpot}
+                        className="text-sm bg-purple-600 text-white font-semibold px-3 py-1.5 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                        Use the same spot
+                    </button>
+                )}
+                <button type="button" onClick={onCancel} className="text-sm bg-gray-200 text-gray-800 font-semibold px-3 py-1.5 rounded-lg hover:bg-gray-300 transition-colors">
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default DraftPlacementBanner;
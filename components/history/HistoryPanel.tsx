@@ -1,14 +1,17 @@
 import React from 'react';
 import type { User } from '../../types';
+import type { VibeDraft } from '../../lib/vibeTemplates';
 import NotesDashboard from '../notes/NotesDashboard';
+import PastVibes from './PastVibes';
 
 interface HistoryPanelProps {
     user: User;
     isOpen: boolean;
     onClose: () => void;
+    onHostAgain: (draft: VibeDraft) => void;
 }
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ user, isOpen, onClose }) => {
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ user, isOpen, onClose, onHostAgain }) => {
     return (
         <>
             {/* Backdrop */}
@@ -41,7 +44,10 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ user, isOpen, onClose }) =>
 
                     {/* Content */}
                     <div className="flex-grow overflow-y-auto px-4 pb-4">
-                        <NotesDashboard user={user} />
+                        <div className="space-y-8">
+                            <PastVibes isOpen={isOpen} onHostAgain={onHostAgain} />
+                            <NotesDashboard user={user} />
+                        </div>
                     </div>
                 </div>
             </div>
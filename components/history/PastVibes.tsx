@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import type { Event, VibeTemplate } from '../../types';
+import { repositories } from '../../lib/repositories';
+import { request, describeRequestError } from '../../lib/requestPipeline';
+import { formatVibeTime, vibeStartTime } from '../../lib/vibes';
+import { draftFromTemplate, draftFromVibe, newTemplate, type VibeDraft } from '../../lib/vibeTemplates';
+
+interface PastVibesProps {
+    isOpen: boolean;
+    onHostAgain: (draft: VibeDraft) => void;
+}
+
+const PAST_VIBE_LIMIT = 20;
+
+// A recurring vibe leaves one past occurrence per run; only the latest is worth offering.
+const latestPerSeries = (vibes: Event[]) => {
+    const seen = new Set<number>();
+    return vibes.filter(vibe => {
+        if (vibe.series_id == null) return true;
+        if (seen.has(vibe.series_id)) return false;
+        seen.add(vibe.series_id);
+        return true;
+    });
+};
+
+// The user's saved templates and the vibes they hosted before, each a quick start for a new one.
+const PastVibes: React.FC<PastVibesProps> = ({ isOpen, onHostAgain }) => {
+    const [templates, setTemplates] = useState<VibeTemplate[]>([]);
+    const [pastVibes, setPastVibes] = useState<Event[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const fetchAll = async () => {
+            setIsLoading(true);
+            try {
+                const [saved, past] = await Promise.all([
+                    request(() => repositories.templates.list()),
+                    request(() => repositories.events.listPastHosted(PAST_VIBE_LIMIT)),
+                ]);
+                setTemplates(saved);
+                setPastVibes(latestPerSeries(past));
+            } catch (fetchError) {
+                console.error("Error fetching past vibes:", fetchError);
+                setError(describeRequestError(fetchError, "Failed to load your past vibes."));
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchAll();
+    }, [isOpen]);
+
+    const handleSaveTemplate = async (vibe: Event) => {
+        setError('');
+        try {
+            const template = await request(() => repositories.templates.create(newTemplate(vibe, { lat: vibe.lat, lng: vibe.lng })), { retry: false });
+            setTemplates(prev => [template, ...prev]);
+            console.log(`📋 Saved "${template.title}" as a template`);
+        } catch (saveError) {
+            console.error("Error saving template:", saveError);
+            setError(describeRequestError(saveError, "Failed to save the template. Please try again."));
+        }
+    };
+
+    const handleDeleteTemplate = async (id: number) => {
+        setError('');
+        try {
+            await request(() => repositories.templates.remove(id));
+            setTemplates(prev => prev.filter(template => template.id !== id));
+        } catch (deleteError) {
+            console.error("Error deleting template:", deleteError);
+            setError(describeRequestError(deleteError, "Failed to delete the template. Please try again."));
+        }
+    };
+
+    if (isLoading) {
+        return <p className="text-center text-gray-500 animate-pulse">Loading your past vibes...</p>;
+    }
+
+    return (
+        <div className="space-y-6">
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            <section>
+                <h2 className="text-2xl font-bold text-gray-800 mb-3">Your Templates</h2>
+                {templates.length > 0 ? (
+                    <ul className="space-y-2">
+                        {templates.map(template => (
+                            <li key={template.id} className="flex items-center justify-between gap-2 bg-white p-3 rounded-lg shadow-sm">
+                                <span className="min-w-0">
+                                    <span className="block font-semibold text-gray-800 truncate">{template.title}</span>
+                                    <span className="block text-xs text-gray-500 truncate">{template.topics.join(', ')}</span>
+                                </span>
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <button type="button" onClick={() => onHostAgain(draftFromTemplate(template))} className="text-xs bg-purple-100 text-purple-800 font-semibold px-2 py-1 rounded hover:bg-purple-200 transition-colors">
+                                        Use
+                                    </button>
+                                    <button type="button" onClick={() => handleDeleteTemplate(template.id)} className="text-xs bg-red-100 text-red-800 font-semibold px-2 py-1 rounded hover:bg-red-200 transition-colors">
+                                        Delete
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500">Save a vibe as a template from the create form or from the list below.</p>
+                )}
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-bold text-gray-800 mb-3">Host Again</h2>
+                {pastVibes.length > 0 ? (
+                    <ul className="space-y-2">
+                        {pastVibes.map(vibe => (
+                            <li key={vibe.id} className="flex items-center justify-between gap-2 bg-white p-3 rounded-lg shadow-sm">
+                                <span className="min-w-0">
+                                    <span className="block font-semibold text-gray-800 truncate">{vibe.title}</span>
+                                    <span className="block text-xs text-gray-500 truncate">
+                                        {vibe.status === 'cancelled' ? 'Cancelled' : formatVibeTime(vibeStartTime(vibe))} · {vibe.topics.join(', ')}
+                                    </span>
+                                </span>
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <button type="button" onClick={() => onHostAgain(draftFromVibe(vibe))} className="text-xs bg-purple-100 text-purple-800 font-semibold px-2 py-1 rounded hover:bg-purple-200 transition-colors">
+                                        Host again
+                                    </button>
+                                    <button type="button" onClick={() => handleSaveTemplate(vibe)} className="text-xs bg-gray-200 text-gray-800 font-semibold px-2 py-1 rounded hover:bg-gray-300 transition-colors">
+                                        Save as template
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500">Vibes you host show up here once they're over.</p>
+                )}
+            </section>
+        </div>
+    );
+};
+
+export default PastVibes;
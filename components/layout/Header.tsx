@@ -1,18 +1,26 @@
 
 import React from 'react';
-import type { User } from '../../types';
+import type { User, Event } from '../../types';
 import Logo from '../common/Logo';
+import VibeSwitcher from './VibeSwitcher';
 
 interface HeaderProps {
     user: User;
     onLogout: () => void;
     onOpenSettings: () => void;
     onOpenProfileQuickView: () => void;
+    onOpenInviteCode: () => void;
+    // Only passed for tag moderators.
+    onOpenTagReview?: () => void;
+    vibes: Event[];
+    unreadCounts: Record<number, number>;
+    selectedVibeId: number | null;
+    onSelectVibe: (eventId: number) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ user, onLogout, onOpenSettings, onOpenProfileQuickView }) => {
+const Header: React.FC<HeaderProps> = ({ user, onLogout, onOpenSettings, onOpenProfileQuickView, onOpenInviteCode, onOpenTagReview, vibes, unreadCounts, selectedVibeId, onSelectVibe }) => {
     return (
-        <header className="bg-white/80 backdrop-blur-sm shadow-sm sticky top-0 z-20">
+        <header className="bg-white/80 backdrop-blur-sm shadow-sm sticky top-0 z-[1100]">
             <div className="container mx-auto px-4 sm:px-6 lg:px-8 h-16 flex justify-between items-center relative">
                 <div className="flex items-center space-x-2">
                     {/* Profile Icon */}
@@ -31,6 +39,27 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout, onOpenSettings, onOpenP
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                         </svg>
                     </button>
+                    {/* Invite Code Icon */}
+                    <button onClick={onOpenInviteCode} className="p-2 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500" aria-label="Enter invite code">
+                        <svg className="h-8 w-8 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 5v2m0 4v2m0 4v2M5 5a2 2 0 00-2 2v3a2 2 0 110 4v3a2 2 0 002 2h14a2 2 0 002-2v-3a2 2 0 110-4V7a2 2 0 00-2-2H5z" />
+                        </svg>
+                    </button>
+                    {/* Tag Review Icon */}
+                    {onOpenTagReview && (
+                        <button onClick={onOpenTagReview} className="p-2 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500" aria-label="Review tags">
+                            <svg className="h-8 w-8 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                            </svg>
+                        </button>
+                    )}
+                    <VibeSwitcher
+                        vibes={vibes}
+                        userId={user.id}
+                        unreadCounts={unreadCounts}
+                        selectedVibeId={selectedVibeId}
+                        onSelectVibe={onSelectVibe}
+                    />
                 </div>
                 
                 <div className="absolute left-1/2 -translate-x-1/2">
@@ -0,0 +1,94 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { Event } from '../../types';
+import { formatVibeTime, vibeRole, vibeStartTime } from '../../lib/vibes';
+
+interface VibeSwitcherProps {
+    vibes: Event[];
+    userId: string;
+    unreadCounts: Record<number, number>;
+    selectedVibeId: number | null;
+    onSelectVibe: (eventId: number) => void;
+}
+
+const ROLE_LABELS = {
+    host: '👑 Hosting',
+    cohost: '⭐ Co-hosting',
+    member: null,
+};
+
+const VibeSwitcher: React.FC<VibeSwitcherProps> = ({ vibes, userId, unreadCounts, selectedVibeId, onSelectVibe }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // The header's backdrop blur traps fixed overlays inside it, so outside clicks are caught here.
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    if (vibes.length === 0) return null;
+
+    const totalUnread = vibes.reduce((sum, vibe) => sum + (unreadCounts[vibe.id] ?? 0), 0);
+    // Live vibes first, then upcoming ones in the order they start.
+    const sorted = [...vibes].sort((a, b) =>
+        Number(b.status === 'live') - Number(a.status === 'live') || vibeStartTime(a) - vibeStartTime(b));
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="relative flex items-center space-x-1 px-3 py-2 rounded-full bg-purple-100 text-purple-800 font-semibold hover:bg-purple-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500"
+                aria-label="My vibes"
+                aria-expanded={isOpen}
+            >
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                </svg>
+                <span>{vibes.length}</span>
+                {totalUnread > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                        {totalUnread}
+                    </span>
+                )}
+            </button>
+            {isOpen && (
+                <ul className="absolute left-0 mt-2 w-72 max-h-96 overflow-y-auto bg-white rounded-2xl shadow-2xl z-40 py-2" role="menu">
+                    <li className="px-4 pb-2 text-xs font-bold uppercase tracking-wide text-gray-500">My Vibes</li>
+                    {sorted.map(vibe => {
+                        const roleLabel = ROLE_LABELS[vibeRole(vibe, userId)];
+                        const unread = unreadCounts[vibe.id] ?? 0;
+                        return (
+                            <li key={vibe.id}>
+                                <button
+                                    onClick={() => { onSelectVibe(vibe.id); setIsOpen(false); }}
+                                    className={`w-full text-left px-4 py-2 flex items-center justify-between hover:bg-gray-100 ${vibe.id === selectedVibeId ? 'bg-purple-50' : ''}`}
+                                    role="menuitem"
+                                >
+                                    <span className="min-w-0">
+                                        <span className="block font-semibold text-gray-800 truncate">{vibe.title}</span>
+                                        <span className="block text-xs text-gray-500">
+                                            {vibe.status === 'live' ? '🟢 Live now' : `Starts ${formatVibeTime(vibeStartTime(vibe))}`}
+                                            {roleLabel && ` · ${roleLabel}`}
+                                        </span>
+                                    </span>
+                                    {unread > 0 && (
+                                        <span className="ml-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center flex-shrink-0">
+                                            {unread}
+                                        </span>
+                                    )}
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default VibeSwitcher;
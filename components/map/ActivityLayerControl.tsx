@@ -0,0 +1,48 @@
+import React from 'react';
+import { ACTIVITY_WINDOWS } from '../../lib/activity';
+
+interface ActivityLayerControlProps {
+    // The window the heatmap covers, or null while it is off.
+    windowId: string | null;
+    onChange: (windowId: string | null) => void;
+    // Nothing open in view, so the heatmap is worth suggesting.
+    isQuiet: boolean;
+}
+
+const ActivityLayerControl: React.FC<ActivityLayerControlProps> = ({ windowId, onChange, isQuiet }) => {
+    const isOn = windowId !== null;
+
+    return (
+        <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-md p-2 space-y-2 max-w-[14rem]">
+            {isQuiet && !isOn && (
+                <p className="text-xs text-gray-600">Nothing on here right now. See where vibes usually happen?</p>
+            )}
+            <button
+                type="button"
+                onClick={() => onChange(isOn ? null : ACTIVITY_WINDOWS[0].id)}
+                aria-pressed={isOn}
+                className={`w-full text-sm font-semibold px-3 py-1 rounded-full transition-colors ${isOn ? 'bg-orange-500 text-white hover:bg-orange-600' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+            >
+                🔥 Activity
+            </button>
+            {isOn && (
+                <>
+                    <label htmlFor="activity-window" className="sr-only">Time window</label>
+                    <select
+                        id="activity-window"
+                        value={windowId}
+                        onChange={e => onChange(e.target.value)}
+                        className="w-full text-sm border border-gray-300 rounded-md px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-orange-400"
+                    >
+                        {ACTIVITY_WINDOWS.map(option => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-gray-500">Where public vibes happened, brighter where more people came.</p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ActivityLayerControl;
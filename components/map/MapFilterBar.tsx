@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import type { Topic, VibeFilter } from '../../types';
+import { repositories } from '../../lib/repositories';
+import { request } from '../../lib/requestPipeline';
+import { isFilterActive } from '../../lib/vibeFilter';
+import TagSearchInput from '../tags/TagSearchInput';
+
+interface MapFilterBarProps {
+    filter: VibeFilter;
+    onChange: (filter: VibeFilter) => void;
+}
+
+// Each search goes to the server, so typing is given a moment to settle first.
+const SEARCH_DEBOUNCE_MS = 400;
+const CHIP_LIMIT = 12;
+
+const MapFilterBar: React.FC<MapFilterBarProps> = ({ filter, onChange }) => {
+    const [query, setQuery] = useState(filter.query);
+    const [popular, setPopular] = useState<Topic[]>([]);
+    const [isPickingTag, setIsPickingTag] = useState(false);
+
+    useEffect(() => {
+        request(() => repositories.tags.listPopular(CHIP_LIMIT))
+          .then(tags => setPopular(tags.map(tag => tag.label)))
+          .catch(error => console.error("Error fetching popular tags:", error));
+    }, []);
+
+    // Follows outside changes, e.g. "Clear".
+    useEffect(() => {
+        setQuery(filter.query);
+    }, [filter.query]);
+
+    useEffect(() => {
+        if (query === filter.query) return;
+        const timeoutId = setTimeout(() => onChange({ ...filter, query }), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timeoutId);
+    }, [query, filter, onChange]);
+
+    const toggleTopic = (topic: Topic) => {
+        const topics = filter.topics.includes(topic) ? filter.topics.filter(t => t !== topic) : [...filter.topics, topic];
+        onChange({ query, topics });
+    };
+
+    // Selected tags stay visible even when they aren't among the popular ones.
+    const chips = [...filter.topics, ...popular.filter(topic => !filter.topics.includes(topic))];
+
+    return (
+        <div className="flex-grow min-w-0 space-y-2 pointer-events-auto">
+            <form
+                role="search"
+                onSubmit={e => { e.preventDefault(); onChange({ ...filter, query }); }}
+                className="flex items-center bg-white rounded-full shadow-md px-4"
+            >
+                <svg className="h-5 w-5 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+                <label htmlFor="vibe-search" className="sr-only">Search vibes</label>
+                <input
+                    id="vibe-search"
+                    type="search"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="Search vibes..."
+                    className="flex-grow min-w-0 px-2 py-2 bg-transparent text-sm focus:outline-none"
+                />
+                {isFilterActive({ query, topics: filter.topics }) && (
+                    <button
+                        type="button"
+                        onClick={() => onChange({ query: '', topics: [] })}
+                        className="text-xs font-semibold text-gray-500 hover:text-gray-800"
+                    >
+                        Clear
+                    </button>
+                )}
+            </form>
+            <div className="flex gap-2 overflow-x-auto pb-1" role="group" aria-label="Filter by tag">
+                {chips.map(topic => (
+                    <button
+                        key={topic}
+                        type="button"
+                        onClick={() => toggleTopic(topic)}
+                        aria-pressed={filter.topics.includes(topic)}
+                        className={`px-3 py-1 text-sm rounded-full shadow-sm border flex-shrink-0 transition-colors ${filter.topics.includes(topic) ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+                    >
+                        {topic}
+                    </button>
+                ))}
+                <button
+                    type="button"
+                    onClick={() => setIsPickingTag(!isPickingTag)}
+                    aria-expanded={isPickingTag}
+                    className="px-3 py-1 text-sm rounded-full shadow-sm border flex-shrink-0 bg-white text-gray-700 border-dashed border-gray-400 hover:bg-gray-100"
+                >
+                    + Tag
+                </button>
+            </div>
+            {isPickingTag && (
+                <div className="max-w-xs">
+                    <TagSearchInput
+                        onPick={topic => { toggleTopic(topic); setIsPickingTag(false); }}
+                        exclude={filter.topics}
+                        allowCreate={false}
+                        placeholder="Filter by any tag..."
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MapFilterBar;
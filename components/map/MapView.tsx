@@ -1,40 +1,146 @@
 
 import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
-import type { Event, User } from '../../types';
+import { createPortal } from 'react-dom';
+import type { Event, User, MapBounds, ActivityPoint } from '../../types';
+import { isOpenStatus, isVibeHost, vibePhaseAt, type VibePhase } from '../../lib/vibes';
+import { readDevicePosition, watchDevicePosition, describeLocationError } from '../../lib/geolocation';
+import { validateVibeSpot, type Region } from '../../lib/regions';
+import VibePopup from './VibePopup';
+import ActivityLayerControl from './ActivityLayerControl';
+import TimeSlider from './TimeSlider';
+import NearMeControl from './NearMeControl';
 
 declare const L: any;
 
-const IITGN_COORDS: [number, number] = [23.1925, 72.6844];
-const INITIAL_ZOOM = 13;
 const LOCATION_FOUND_ZOOM = 16;
-const CREATE_RADIUS_METERS = 5000;
+// The radius itself comes from the region.
+const RADIUS_STYLE = {
+  color: '#a855f7',
+  fillColor: '#c084fc',
+  fillOpacity: 0.1,
+  weight: 2,
+};
+
+// How far off the device thinks it might be, while tracking.
+const ACCURACY_STYLE = {
+  color: '#2563eb',
+  fillColor: '#3b82f6',
+  fillOpacity: 0.15,
+  weight: 1,
+  interactive: false,
+};
+
+const NEAR_ME_STYLE = {
+  color: '#16a34a',
+  fill: false,
+  weight: 2,
+  dashArray: '6 6',
+  interactive: false,
+};
+
+const MARKER_CLASSES: Record<Exclude<VibePhase, 'over'>, string> = {
+  live: 'event-marker',
+  soon: 'event-marker event-marker-soon',
+  upcoming: 'event-marker event-marker-upcoming',
+};
+
+const createEventIcon = (phase: Exclude<VibePhase, 'over'>, size: number) => L.divIcon({
+  className: MARKER_CLASSES[phase],
+  iconSize: [size, size],
+});
+
+const HEATMAP_OPTIONS = { radius: 25, blur: 20, maxZoom: 17, minOpacity: 0.3 };
+
+const CLUSTER_RADIUS_PX = 50;
+const CLUSTER_TOPIC_LIMIT = 2;
+
+// A cluster shows how many vibes it holds and their most common topics. Topics are
+// user-written, so the icon is built from DOM nodes rather than an HTML string.
+const createClusterIcon = (cluster: any) => {
+  const children = cluster.getAllChildMarkers();
+  const vibes: Event[] = children.map((marker: any) => marker.options.vibe);
+  const topicCounts = new Map<string, number>();
+  vibes.forEach(vibe => vibe.topics.forEach(topic => topicCounts.set(topic, (topicCounts.get(topic) ?? 0) + 1)));
+  const breakdown = [...topicCounts].sort((a, b) => b[1] - a[1]).map(([topic, count]) => `${topic} ${count}`);
+
+  const node = document.createElement('div');
+  node.className = children.some((marker: any) => marker.options.phase === 'live') ? 'vibe-cluster' : 'vibe-cluster vibe-cluster-upcoming';
+  node.title = breakdown.join(', ');
+  const count = document.createElement('span');
+  count.textContent = String(vibes.length);
+  node.appendChild(count);
+  if (breakdown.length > 0) {
+    const topics = document.createElement('span');
+    topics.className = 'vibe-cluster-topics';
+    topics.textContent = breakdown.slice(0, CLUSTER_TOPIC_LIMIT).join(' · ') + (breakdown.length > CLUSTER_TOPIC_LIMIT ? ' …' : '');
+    node.appendChild(topics);
+  }
+
+  const size = Math.min(32 + Math.round(Math.log2(vibes.length) * 6), 56);
+  return L.divIcon({ html: node, className: '', iconSize: [size, size] });
+};
+
+interface MarkerEntry {
+  marker: any;
+  event: Event; // The latest version, for handlers attached when the marker was created
+  iconKey: string;
+  container: HTMLDivElement; // The popup's content, filled by a portal
+}
 
 interface MapViewProps {
+  region: Region;
   isCreateMode: boolean;
   userLocation: [number, number] | null;
   onSetUserLocation: (coords: [number, number]) => void;
   onMapClick: (coords: { lat: number, lng: number }) => void;
   events: Event[];
   user: User;
-  activeVibe: Event | null;
   onCloseEvent: (eventId: number) => void;
   onExtendEvent: (eventId: number) => void;
+  onEditEvent: (eventId: number) => void;
+  onEditSeries: (eventId: number) => void;
+  onEndSeries: (seriesId: number) => void;
+  onMoveEvent: (eventId: number, coords: { lat: number, lng: number }) => void;
+  onManageInvites: (eventId: number) => void;
+  pendingJoinIds: Set<number>;
   onJoinVibe: (eventId: number) => void;
-  onViewChat: () => void;
+  onViewChat: (eventId: number) => void;
+  onViewportChange: (bounds: MapBounds) => void;
+  isZoomedOutTooFar: boolean;
+  // Null while the activity heatmap is off.
+  activityPoints: ActivityPoint[] | null;
+  activityWindowId: string | null;
+  onActivityWindowChange: (windowId: string | null) => void;
+  // The "near me" filter, applied to `events` by the caller; drawn here as a ring.
+  nearMeMeters: number | null;
+  onNearMeChange: (radiusMeters: number | null) => void;
 }
 
 export interface MapViewRef {
   recenter: () => void;
+  flyTo: (coords: [number, number]) => void;
 }
 
-const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocation, onSetUserLocation, onMapClick, events, user, activeVibe, onCloseEvent, onExtendEvent, onJoinVibe, onViewChat }, ref) => {
+const MapView = forwardRef<MapViewRef, MapViewProps>(({ region, isCreateMode, userLocation, onSetUserLocation, onMapClick, events, user, onCloseEvent, onExtendEvent, onEditEvent, onEditSeries, onEndSeries, onMoveEvent, onManageInvites, pendingJoinIds, onJoinVibe, onViewChat, onViewportChange, isZoomedOutTooFar, activityPoints, activityWindowId, onActivityWindowChange, nearMeMeters, onNearMeChange }, ref) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const radiusCircleRef = useRef<any>(null);
   const eventsLayerRef = useRef<any>(null);
   const userMarkerRef = useRef<any>(null);
-
-  const [displayCoords, setDisplayCoords] = useState<{ lat: number; lng: number }>({ lat: IITGN_COORDS[0], lng: IITGN_COORDS[1] });
+  const heatLayerRef = useRef<any>(null);
+  const accuracyCircleRef = useRef<any>(null);
+  const nearMeCircleRef = useRef<any>(null);
+  const [isTracking, setIsTracking] = useState(false);
+  // A moment to preview the map at, or null for now.
+  const [previewTime, setPreviewTime] = useState<number | null>(null);
+  const radiusStyle = { ...RADIUS_STYLE, radius: region.createRadiusMeters };
+  const markersRef = useRef(new Map<number, MarkerEntry>());
+  const [popupContainers, setPopupContainers] = useState<Map<number, HTMLDivElement>>(new Map());
+  // Marker handlers outlive renders, so they read these instead of closing over props.
+  const latestRef = useRef({ userLocation, region, radiusStyle, onMoveEvent });
+  latestRef.current = { userLocation, region, radiusStyle, onMoveEvent };
+
+  const [displayCoords, setDisplayCoords] = useState<{ lat: number; lng: number }>({ lat: region.center[0], lng: region.center[1] });
   const [error, setError] = useState<string | null>(null);
   const [loadingLocation, setLoadingLocation] = useState(true);
 
@@ -43,9 +149,17 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocati
       if (mapInstanceRef.current && userLocation) {
         mapInstanceRef.current.flyTo(userLocation, LOCATION_FOUND_ZOOM);
       }
-    }
+    },
+    flyTo: (coords) => {
+      mapInstanceRef.current?.flyTo(coords, LOCATION_FOUND_ZOOM);
+    },
   }));
 
+  // Placing a vibe happens in the present.
+  useEffect(() => {
+    if (isCreateMode) setPreviewTime(null);
+  }, [isCreateMode]);
+
   // Effect 1: Initialize map instance
   useEffect(() => {
     if (!mapRef.current || typeof L === 'undefined') {
@@ -55,19 +169,22 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocati
     }
     console.log('🗺️ Initializing map...');
 
-    const map = L.map(mapRef.current, { center: IITGN_COORDS, zoom: INITIAL_ZOOM, zoomControl: false, preferCanvas: true });
+    const map = L.map(mapRef.current, { center: region.center, zoom: region.zoom, zoomControl: false, preferCanvas: true });
     mapInstanceRef.current = map;
     
     L.control.zoom({ position: 'topright' }).addTo(map);
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-      maxZoom: 19,
-      keepBuffer: 2,
-    }).addTo(map);
     L.control.scale({ position: 'bottomright' }).addTo(map);
 
-    userMarkerRef.current = L.marker(IITGN_COORDS).addTo(map);
-    eventsLayerRef.current = L.layerGroup().addTo(map);
+    userMarkerRef.current = L.marker(region.center).addTo(map);
+    // Falls back to plain markers if the clustering plugin failed to load.
+    eventsLayerRef.current = (typeof L.markerClusterGroup === 'function'
+      ? L.markerClusterGroup({
+          iconCreateFunction: createClusterIcon,
+          maxClusterRadius: CLUSTER_RADIUS_PX,
+          showCoverageOnHover: false,
+          spiderfyOnMaxZoom: true,
+        })
+      : L.layerGroup()).addTo(map);
     
     console.log('✅ Map ready');
     setTimeout(() => map.invalidateSize(), 100);
@@ -75,6 +192,23 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocati
     return () => { map.remove(); };
   }, []);
 
+  // Tiles follow the region, which the user can change in settings.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+    const tiles = L.tileLayer(region.tiles.url, {
+      attribution: region.tiles.attribution,
+      maxZoom: region.tiles.maxZoom,
+      keepBuffer: 2,
+    }).addTo(map);
+    return () => { tiles.remove(); };
+  }, [region.tiles]);
+
+  // Without the user's location, the region's center is the best place to be.
+  useEffect(() => {
+    if (!userLocation) mapInstanceRef.current?.setView(region.center, region.zoom);
+  }, [region, userLocation]);
+
   // Effect 2: Get user location (runs after map is initialized)
   useEffect(() => {
     if (!mapInstanceRef.current) return;
@@ -89,10 +223,9 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocati
         setLoadingLocation(false);
     }, 5000);
 
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
+    readDevicePosition({ enableHighAccuracy: false, timeout: 5000, maximumAge: 30000 }).then(
+      (userCoords) => {
         clearTimeout(locationTimeout);
-        const userCoords: [number, number] = [position.coords.latitude, position.coords.longitude];
         console.log(`✅ Location found: [${userCoords[0]}, ${userCoords[1]}]`);
         onSetUserLocation(userCoords);
 
@@ -107,19 +240,76 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocati
       (geoError: GeolocationPositionError) => {
         clearTimeout(locationTimeout);
         console.error('Geolocation error:', geoError);
-        let errorMessage = 'Unable to retrieve your location.';
-        if (geoError.code === geoError.PERMISSION_DENIED) {
-          errorMessage = 'Location access denied. Please enable it in your browser settings.';
-        }
-        setError(errorMessage);
+        setError(describeLocationError(geoError));
         setLoadingLocation(false);
-      },
-      { enableHighAccuracy: false, timeout: 5000, maximumAge: 30000 }
+      }
     );
 
     return () => clearTimeout(locationTimeout);
   }, [onSetUserLocation]);
 
+  // Opt-in tracking keeps the marker, the create radius and distances current as the
+  // user walks around. The one-off read above still places the map first.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !isTracking) return;
+
+    console.log('🛰️ Tracking location...');
+    const stopWatch = watchDevicePosition(
+      ({ coords, accuracy }) => {
+        onSetUserLocation(coords);
+        userMarkerRef.current?.setLatLng(coords);
+        if (accuracyCircleRef.current) {
+          accuracyCircleRef.current.setLatLng(coords).setRadius(accuracy);
+        } else {
+          accuracyCircleRef.current = L.circle(coords, { ...ACCURACY_STYLE, radius: accuracy }).addTo(map);
+        }
+        setDisplayCoords({ lat: coords[0], lng: coords[1] });
+        setError(null);
+      },
+      (geoError) => {
+        console.error('Geolocation error:', geoError);
+        setError(describeLocationError(geoError));
+        if (geoError.code === GeolocationPositionError.PERMISSION_DENIED) setIsTracking(false);
+      }
+    );
+
+    return () => {
+      stopWatch();
+      accuracyCircleRef.current?.remove();
+      accuracyCircleRef.current = null;
+    };
+  }, [isTracking, onSetUserLocation]);
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (nearMeMeters === null || !userLocation) {
+      nearMeCircleRef.current?.remove();
+      nearMeCircleRef.current = null;
+    } else if (nearMeCircleRef.current) {
+      nearMeCircleRef.current.setLatLng(userLocation).setRadius(nearMeMeters);
+    } else {
+      nearMeCircleRef.current = L.circle(userLocation, { ...NEAR_ME_STYLE, radius: nearMeMeters }).addTo(map);
+    }
+  }, [nearMeMeters, userLocation]);
+
+  // Report the visible area so only events inside it (plus a margin) are loaded.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    const reportViewport = () => {
+      const bounds = map.getBounds();
+      onViewportChange({ south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() });
+    };
+
+    reportViewport();
+    map.on('moveend', reportViewport);
+    return () => { map.off('moveend', reportViewport); };
+  }, [onViewportChange]);
+
   useEffect(() => {
     const map = mapInstanceRef.current;
     if (!map) return;
@@ -128,18 +318,18 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocati
       if (!isCreateMode || !userLocation) return;
       
       const clickLatLng = e.latlng;
-      const userLatLng = L.latLng(userLocation[0], userLocation[1]);
+      const spotError = validateVibeSpot(region, userLocation, [clickLatLng.lat, clickLatLng.lng]);
 
-      if (userLatLng.distanceTo(clickLatLng) <= CREATE_RADIUS_METERS) {
+      if (!spotError) {
         onMapClick({ lat: clickLatLng.lat, lng: clickLatLng.lng });
       } else {
-        alert("Please select a location within the 5km radius.");
+        alert(spotError);
       }
     };
 
     map.on('click', handleClick);
     return () => { map.off('click', handleClick); };
-  }, [isCreateMode, onMapClick, userLocation]);
+  }, [isCreateMode, onMapClick, userLocation, region]);
 
   useEffect(() => {
     const map = mapInstanceRef.current;
@@ -147,13 +337,9 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocati
 
     if (isCreateMode && userLocation) {
       if (!radiusCircleRef.current) {
-        radiusCircleRef.current = L.circle(userLocation, {
-          radius: CREATE_RADIUS_METERS,
-          color: '#a855f7',
-          fillColor: '#c084fc',
-          fillOpacity: 0.1,
-          weight: 2,
-        }).addTo(map);
+        radiusCircleRef.current = L.circle(userLocation, radiusStyle).addTo(map);
+      } else {
+        radiusCircleRef.current.setLatLng(userLocation).setRadius(region.createRadiusMeters);
       }
       mapRef.current.style.cursor = 'crosshair';
     } else {
@@ -163,93 +349,179 @@ const MapView = forwardRef<MapViewRef, MapViewProps>(({ isCreateMode, userLocati
       }
       mapRef.current.style.cursor = '';
     }
-  }, [isCreateMode, userLocation]);
+  }, [isCreateMode, userLocation, region.createRadiusMeters]);
 
+  // Markers are kept per vibe and updated in place; their popups are React portals
+  // (rendered below), so nothing user-written ever goes through innerHTML.
   useEffect(() => {
     const layer = eventsLayerRef.current;
     const map = mapInstanceRef.current;
     if (!layer || !map || !user) return;
 
-    layer.clearLayers();
-    const now = new Date().getTime();
-    
-    const activeEvents = events.filter(event => {
-        if (event.status !== 'active') return false;
-        const endTime = new Date(event.event_time).getTime() + event.duration * 60 * 1000;
-        return now < endTime;
+    // Now, status comes from the server's lifecycle job, not this device's clock. A
+    // preview has only the clock to go on. Invite-only vibes are already filtered
+    // server-side to the people who may see them.
+    const phaseOf = (event: Event): VibePhase => previewTime === null
+      ? (!isOpenStatus(event.status) ? 'over' : event.status === 'live' ? 'live' : 'upcoming')
+      : vibePhaseAt(event, previewTime);
+    const phases = new Map(events.map(event => [event.id, phaseOf(event)]));
+    const activeEvents = events.filter(event => phases.get(event.id) !== 'over');
+    const markers = markersRef.current;
+    const activeIds = new Set(activeEvents.map(event => event.id));
+
+    markers.forEach((entry, id) => {
+      if (activeIds.has(id)) return;
+      layer.removeLayer(entry.marker);
+      markers.delete(id);
     });
 
     activeEvents.forEach(event => {
-      if (!event.is_public && event.creator_id !== user.id) return;
-
       const participantCount = event.participants?.length || 1;
       const markerSize = Math.min(24 + (participantCount - 1) * 4, 48);
-
-      const eventIcon = L.divIcon({
-        className: 'event-marker',
-        iconSize: [markerSize, markerSize],
-      });
-      
-      const eventMarker = L.marker([event.lat, event.lng], { icon: eventIcon }).addTo(layer);
-      
-      const popupNode = document.createElement('div');
-      popupNode.className = "p-1 font-sans";
-      popupNode.innerHTML = `
-        <h3 class="font-bold text-lg text-purple-800">${event.title}</h3>
-        ${event.description ? `<p class="text-gray-700 my-1">${event.description}</p>` : ''}
-        <div class="flex flex-wrap gap-1 my-2">
-          ${event.topics.map(topic => `<span class="bg-purple-200 text-purple-800 text-xs font-semibold px-2 py-0.5 rounded-full">${topic}</span>`).join('')}
-        </div>
-        <p class="text-xs text-gray-500">Ends at: ${new Date(new Date(event.event_time).getTime() + event.duration * 60 * 1000).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</p>
-        <p class="text-xs text-gray-500 font-medium">👥 ${participantCount} ${participantCount > 1 ? 'Vibing' : 'Vibing'}</p>
-      `;
-      
-      const controlsContainer = document.createElement('div');
-      controlsContainer.className = "mt-2 pt-2 border-t border-gray-200 flex flex-wrap items-center gap-2";
-
-      if (user.id === event.creator_id) {
-          const extendButton = document.createElement('button');
-          extendButton.className = "text-xs bg-green-100 text-green-800 font-semibold px-2 py-1 rounded hover:bg-green-200 transition-colors";
-          extendButton.innerText = "Extend (+15m)";
-          controlsContainer.appendChild(extendButton);
-          L.DomEvent.on(extendButton, 'click', () => { onExtendEvent(event.id); map.closePopup(); });
-
-          const closeButton = document.createElement('button');
-          closeButton.className = "text-xs bg-red-100 text-red-800 font-semibold px-2 py-1 rounded hover:bg-red-200 transition-colors";
-          closeButton.innerText = "Close Vibe";
-          controlsContainer.appendChild(closeButton);
-          L.DomEvent.on(closeButton, 'click', () => { onCloseEvent(event.id); map.closePopup(); });
+      const phase = phases.get(event.id) as Exclude<VibePhase, 'over'>;
+      const iconKey = `${phase}:${markerSize}`;
+      const isHost = isVibeHost(event, user.id);
+
+      const existing = markers.get(event.id);
+      if (existing) {
+        const topicsChanged = existing.event.topics.join() !== event.topics.join();
+        existing.event = existing.marker.options.vibe = event;
+        existing.marker.options.phase = phase;
+        const { lat, lng } = existing.marker.getLatLng();
+        if (lat !== event.lat || lng !== event.lng) existing.marker.setLatLng([event.lat, event.lng]);
+        const iconChanged = existing.iconKey !== iconKey;
+        if (iconChanged) {
+          existing.marker.setIcon(createEventIcon(phase, markerSize));
+          existing.iconKey = iconKey;
+        }
+        // Cluster icons summarise their markers, so they are redrawn when one changes.
+        if ((topicsChanged || iconChanged) && layer.refreshClusters) layer.refreshClusters(existing.marker);
+        // A marker hidden in a cluster has no drag handler until it is shown again.
+        existing.marker.options.draggable = isHost;
+        if (isHost) existing.marker.dragging?.enable();
+        else existing.marker.dragging?.disable();
+        return;
       }
 
-      if (event.participants.includes(user.id)) {
-          const viewChatButton = document.createElement('button');
-          viewChatButton.className = "w-full text-center font-bold bg-purple-600 text-white px-3 py-2 rounded-lg hover:bg-purple-700 transition-colors";
-          viewChatButton.innerText = "View Chat";
-          controlsContainer.appendChild(viewChatButton);
-          L.DomEvent.on(viewChatButton, 'click', () => { onJoinVibe(event.id); onViewChat(); map.closePopup(); });
-      } else {
-          const joinButton = document.createElement('button');
-          joinButton.className = "w-full text-center font-bold bg-green-600 text-white px-3 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed";
-          joinButton.innerText = "Join Vibe";
-          if (activeVibe) {
-              joinButton.disabled = true;
-              joinButton.innerText = "In another Vibe";
+      // Hosts move their vibe by dragging its pin, within the same radius as creating one.
+      const marker = L.marker([event.lat, event.lng], { icon: createEventIcon(phase, markerSize), draggable: isHost, vibe: event, phase }).addTo(layer);
+      const entry: MarkerEntry = { marker, event, iconKey, container: document.createElement('div') };
+      let dragRadius: any = null;
+      marker.on('dragstart', () => {
+          const { userLocation, radiusStyle } = latestRef.current;
+          map.closePopup();
+          if (userLocation) dragRadius = L.circle(userLocation, radiusStyle).addTo(map);
+      });
+      marker.on('dragend', () => {
+          const { userLocation, region, onMoveEvent } = latestRef.current;
+          dragRadius?.remove();
+          const { lat, lng } = marker.getLatLng();
+          const spotError = userLocation && validateVibeSpot(region, userLocation, [lat, lng]);
+          if (!userLocation) {
+              alert("We need your location to move a vibe.");
+          } else if (spotError) {
+              alert(spotError);
+          } else {
+              onMoveEvent(entry.event.id, { lat, lng });
+              return;
           }
-          controlsContainer.appendChild(joinButton);
-          L.DomEvent.on(joinButton, 'click', () => { onJoinVibe(event.id); map.closePopup(); });
-      }
-      
-      if(controlsContainer.hasChildNodes()) popupNode.appendChild(controlsContainer);
-      eventMarker.bindPopup(popupNode);
+          marker.setLatLng([entry.event.lat, entry.event.lng]);
+      });
+      marker.bindPopup(entry.container);
+      markers.set(event.id, entry);
+    });
+
+    setPopupContainers(prev => {
+      const unchanged = prev.size === markers.size && [...markers.keys()].every(id => prev.has(id));
+      return unchanged ? prev : new Map([...markers].map(([id, entry]) => [id, entry.container]));
+    });
+  }, [events, user, previewTime]);
+
+  // The heatmap sits under the markers. Its brightest spot is the busiest vibe in view.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || typeof L.heatLayer !== 'function') return;
+    if (!activityPoints) {
+      heatLayerRef.current?.remove();
+      heatLayerRef.current = null;
+      return;
+    }
+
+    const latLngs = activityPoints.map(point => [point.lat, point.lng, point.weight]);
+    const max = Math.max(1, ...activityPoints.map(point => point.weight));
+    if (heatLayerRef.current) {
+      heatLayerRef.current.setOptions({ ...HEATMAP_OPTIONS, max });
+      heatLayerRef.current.setLatLngs(latLngs);
+    } else {
+      heatLayerRef.current = L.heatLayer(latLngs, { ...HEATMAP_OPTIONS, max }).addTo(map);
+    }
+  }, [activityPoints]);
+
+  // An open popup is re-measured once its content has re-rendered.
+  useEffect(() => {
+    markersRef.current.forEach(({ marker }) => {
+      if (marker.isPopupOpen()) marker.getPopup().update();
     });
-  }, [events, user, activeVibe, onCloseEvent, onExtendEvent, onJoinVibe, onViewChat]);
+  });
+
+  const closePopup = () => mapInstanceRef.current?.closePopup();
+  const eventsById = new Map(events.map(event => [event.id, event]));
 
   return (
     <div className="relative w-full h-full bg-green-200 z-0">
       <div ref={mapRef} className="w-full h-full" role="application" aria-label="Interactive map" />
+      {[...popupContainers].map(([id, container]) => {
+        const event = eventsById.get(id);
+        return event && createPortal(
+          <VibePopup
+            event={event}
+            user={user}
+            isJoinPending={pendingJoinIds.has(id)}
+            previewTime={previewTime}
+            userLocation={userLocation}
+            onCloseEvent={onCloseEvent}
+            onExtendEvent={onExtendEvent}
+            onEditEvent={onEditEvent}
+            onEditSeries={onEditSeries}
+            onEndSeries={onEndSeries}
+            onManageInvites={onManageInvites}
+            onJoinVibe={onJoinVibe}
+            onViewChat={onViewChat}
+            onDone={closePopup}
+          />,
+          container,
+          String(id),
+        );
+      })}
       
+      {isZoomedOutTooFar && (
+        <p className="absolute top-16 left-1/2 -translate-x-1/2 z-[1000] text-center text-sm text-gray-700 bg-white/90 px-4 py-2 rounded-full shadow-md">
+          Zoom in to see vibes
+        </p>
+      )}
+
+      {!isCreateMode && (
+        <div className="absolute bottom-24 left-4 z-[1000] flex flex-col items-start gap-2">
+          <NearMeControl
+            isTracking={isTracking}
+            onTrackingChange={setIsTracking}
+            radiusMeters={nearMeMeters}
+            onRadiusChange={onNearMeChange}
+            hasLocation={!!userLocation}
+          />
+          <TimeSlider previewTime={previewTime} onChange={setPreviewTime} />
+          {typeof L !== 'undefined' && typeof L.heatLayer === 'function' && (
+            <ActivityLayerControl
+              windowId={activityWindowId}
+              onChange={onActivityWindowChange}
+              isQuiet={!isZoomedOutTooFar && !events.some(event => isOpenStatus(event.status))}
+            />
+          )}
+        </div>
+      )}
+
       {error && (
-        <p className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] w-11/12 max-w-md text-center text-sm text-yellow-800 bg-yellow-100 p-3 rounded-lg shadow-md" role="alert">
+        <p className="absolute top-28 left-1/2 -translate-x-1/2 z-[1000] w-11/12 max-w-md text-center text-sm text-yellow-800 bg-yellow-100 p-3 rounded-lg shadow-md" role="alert">
           {error}
         </p>
       )}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { NEAR_ME_RADII_METERS } from '../../lib/vibeList';
+
+interface NearMeControlProps {
+    isTracking: boolean;
+    onTrackingChange: (isTracking: boolean) => void;
+    // Only vibes this close to the user are shown; null shows everything in view.
+    radiusMeters: number | null;
+    onRadiusChange: (radiusMeters: number | null) => void;
+    hasLocation: boolean;
+}
+
+const NearMeControl: React.FC<NearMeControlProps> = ({ isTracking, onTrackingChange, radiusMeters, onRadiusChange, hasLocation }) => {
+    return (
+        <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-md p-2 w-56 space-y-2">
+            <label className="flex items-center gap-2 text-xs font-semibold text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={isTracking}
+                    onChange={e => onTrackingChange(e.target.checked)}
+                    className="accent-purple-600"
+                />
+                Keep following my location
+            </label>
+            <div className="flex items-center gap-2">
+                <label htmlFor="near-me" className="text-xs font-semibold text-gray-700 flex-shrink-0">Near me</label>
+                <select
+                    id="near-me"
+                    value={radiusMeters ?? ''}
+                    onChange={e => onRadiusChange(e.target.value ? Number(e.target.value) : null)}
+                    disabled={!hasLocation}
+                    className="flex-grow text-sm border border-gray-300 rounded-md px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-purple-400 disabled:bg-gray-100"
+                >
+                    <option value="">Anywhere</option>
+                    {NEAR_ME_RADII_METERS.map(radius => (
+                        <option key={radius} value={radius}>Within {radius < 1000 ? `${radius} m` : `${radius / 1000} km`}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+};
+
+export default NearMeControl;
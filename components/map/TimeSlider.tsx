@@ -0,0 +1,49 @@
+import React from 'react';
+import { formatVibeTime } from '../../lib/vibes';
+
+interface TimeSliderProps {
+    // The moment the map shows, or null for now.
+    previewTime: number | null;
+    onChange: (previewTime: number | null) => void;
+}
+
+const STEP_MINUTES = 15;
+const RANGE_HOURS = 24;
+const STEP_MS = STEP_MINUTES * 60 * 1000;
+const STEPS = (RANGE_HOURS * 60) / STEP_MINUTES;
+
+// Step 0 is now; the rest land on the quarter hours after it, so "9:00 PM" can be hit exactly.
+const TimeSlider: React.FC<TimeSliderProps> = ({ previewTime, onChange }) => {
+    const firstStep = Math.ceil(Date.now() / STEP_MS) * STEP_MS;
+    const step = previewTime === null ? 0 : Math.min(Math.max(Math.round((previewTime - firstStep) / STEP_MS) + 1, 0), STEPS);
+
+    return (
+        <div className="bg-white/90 backdrop-blur-sm rounded-lg shadow-md p-2 w-56 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+                <label htmlFor="map-time" className="text-xs font-semibold text-gray-700">
+                    {previewTime === null ? 'Showing now' : `Showing ${formatVibeTime(previewTime)}`}
+                </label>
+                {previewTime !== null && (
+                    <button type="button" onClick={() => onChange(null)} className="text-xs font-semibold text-purple-700 hover:text-purple-900">
+                        Back to now
+                    </button>
+                )}
+            </div>
+            <input
+                id="map-time"
+                type="range"
+                min={0}
+                max={STEPS}
+                value={step}
+                onChange={e => {
+                    const next = Number(e.target.value);
+                    onChange(next === 0 ? null : firstStep + (next - 1) * STEP_MS);
+                }}
+                aria-valuetext={previewTime === null ? 'Now' : formatVibeTime(previewTime)}
+                className="w-full accent-purple-600"
+            />
+        </div>
+    );
+};
+
+export default TimeSlider;
@@ -0,0 +1,136 @@
+import React from 'react';
+import type { Event, User } from '../../types';
+import { isVibeHost, vibeStartTime, vibeEndTime, formatVibeTime, vibePhaseAt, canExtendVibe, EXTEND_MINUTES } from '../../lib/vibes';
+import { distanceMeters, formatDistance, formatWalkingTime } from '../../lib/geo';
+
+interface VibePopupProps {
+    event: Event;
+    user: User;
+    isJoinPending: boolean;
+    // Set while the map previews another moment.
+    previewTime: number | null;
+    userLocation: [number, number] | null;
+    onCloseEvent: (eventId: number) => void;
+    onExtendEvent: (eventId: number) => void;
+    onEditEvent: (eventId: number) => void;
+    onEditSeries: (eventId: number) => void;
+    onEndSeries: (seriesId: number) => void;
+    onManageInvites: (eventId: number) => void;
+    onJoinVibe: (eventId: number) => void;
+    onViewChat: (eventId: number) => void;
+    // Closes the popup after any of the actions above.
+    onDone: () => void;
+}
+
+const BADGE = 'inline-block text-xs font-semibold px-2 py-0.5 rounded-full mb-1';
+const ACTION = 'text-xs font-semibold px-2 py-1 rounded transition-colors';
+
+// The contents of a vibe's map popup, rendered into Leaflet's popup through a portal.
+const VibePopup: React.FC<VibePopupProps> = ({ event, user, isJoinPending, previewTime, userLocation, onCloseEvent, onExtendEvent, onEditEvent, onEditSeries, onEndSeries, onManageInvites, onJoinVibe, onViewChat, onDone }) => {
+    const participantCount = event.participants?.length || 1;
+    const isScheduled = event.status === 'scheduled';
+    const isRecurring = event.series_id != null;
+    const isHost = isVibeHost(event, user.id);
+    const isFull = event.max_participants != null && event.participants.length >= event.max_participants;
+    const capacityLabel = event.max_participants != null ? `${participantCount}/${event.max_participants}` : `${participantCount}`;
+    const needsApproval = event.requires_approval && !isHost;
+    const distance = userLocation ? distanceMeters(userLocation, [event.lat, event.lng]) : null;
+    const previewPhase = previewTime !== null ? vibePhaseAt(event, previewTime) : null;
+
+    const act = (action: () => void) => () => {
+        action();
+        onDone();
+    };
+
+    return (
+        <div className="p-1 font-sans">
+            {isScheduled && <span className={`${BADGE} bg-sky-100 text-sky-800`}>Upcoming</span>}
+            {!event.is_public && <span className={`${BADGE} bg-gray-200 text-gray-800`}>🔒 Invite only</span>}
+            {event.requires_approval && <span className={`${BADGE} bg-orange-100 text-orange-800`}>✋ Approval needed</span>}
+            {isRecurring && <span className={`${BADGE} bg-amber-100 text-amber-800`}>🔁 Repeats</span>}
+            <h3 className="font-bold text-lg text-purple-800">{event.title}</h3>
+            {event.description && <p className="text-gray-700 my-1">{event.description}</p>}
+            <div className="flex flex-wrap gap-1 my-2">
+                {event.topics.map(topic => (
+                    <span key={topic} className="bg-purple-200 text-purple-800 text-xs font-semibold px-2 py-0.5 rounded-full">{topic}</span>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500">
+                {isScheduled
+                    ? `Starts: ${formatVibeTime(vibeStartTime(event))}`
+                    : `Ends at: ${new Date(vibeEndTime(event)).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+            </p>
+            {(previewPhase === 'live' || previewPhase === 'soon') && (
+                <p className="text-xs font-semibold text-purple-700">
+                    {previewPhase === 'live'
+                        ? `On at ${formatVibeTime(previewTime!)}`
+                        : `Starts ${Math.round((vibeStartTime(event) - previewTime!) / 60000)} min after ${formatVibeTime(previewTime!)}`}
+                </p>
+            )}
+            <p className="text-xs text-gray-500 font-medium">
+                👥 {capacityLabel} Vibing{isFull && <> · <span className="text-red-600 font-semibold">Full</span></>}
+            </p>
+            {distance !== null && (
+                <p className="text-xs text-gray-500">📍 {formatDistance(distance)} away · ~{formatWalkingTime(distance)}</p>
+            )}
+            {isHost && <p className="text-xs text-gray-400 mt-1">Drag the pin to move your vibe.</p>}
+
+            <div className="mt-2 pt-2 border-t border-gray-200 flex flex-wrap items-center gap-2">
+                {isHost && (
+                    <>
+                        <button onClick={act(() => onEditEvent(event.id))} className={`${ACTION} bg-gray-100 text-gray-800 hover:bg-gray-200`}>
+                            {isRecurring ? 'Edit this one' : 'Edit'}
+                        </button>
+                        {!isScheduled && (
+                            <button
+                                onClick={act(() => onExtendEvent(event.id))}
+                                disabled={!canExtendVibe(event)}
+                                title={canExtendVibe(event) ? undefined : 'Vibes can last at most 24 hours'}
+                                className={`${ACTION} bg-green-100 text-green-800 hover:bg-green-200 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed`}
+                            >
+                                Extend (+{EXTEND_MINUTES}m)
+                            </button>
+                        )}
+                        {/* Cancelling one date of a series skips it; the next date takes its place. */}
+                        <button onClick={act(() => onCloseEvent(event.id))} className={`${ACTION} bg-red-100 text-red-800 hover:bg-red-200`}>
+                            {isScheduled ? (isRecurring ? 'Skip this one' : 'Cancel Vibe') : 'Close Vibe'}
+                        </button>
+                        {!event.is_public && (
+                            <button onClick={act(() => onManageInvites(event.id))} className={`${ACTION} bg-purple-100 text-purple-800 hover:bg-purple-200`}>
+                                Invite
+                            </button>
+                        )}
+                        {/* Co-hosts help run this date; the series as a whole is left to the host. The
+                            series owner moves with the host, and the handlers check it before acting. */}
+                        {isRecurring && user.id === event.creator_id && (
+                            <>
+                                <button onClick={act(() => onEditSeries(event.id))} className={`${ACTION} bg-amber-100 text-amber-800 hover:bg-amber-200`}>
+                                    Edit series
+                                </button>
+                                <button onClick={act(() => onEndSeries(event.series_id!))} className={`${ACTION} bg-red-100 text-red-800 hover:bg-red-200`}>
+                                    End series
+                                </button>
+                            </>
+                        )}
+                    </>
+                )}
+
+                {event.participants.includes(user.id) ? (
+                    <button onClick={act(() => onViewChat(event.id))} className="w-full text-center font-bold bg-purple-600 text-white px-3 py-2 rounded-lg hover:bg-purple-700 transition-colors">
+                        View Chat
+                    </button>
+                ) : (
+                    <button
+                        onClick={act(() => onJoinVibe(event.id))}
+                        disabled={isJoinPending || isFull}
+                        className="w-full text-center font-bold bg-green-600 text-white px-3 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {isJoinPending ? 'Pending approval' : isFull ? 'Vibe Full' : needsApproval ? 'Request to Join' : 'Join Vibe'}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default VibePopup;
@@ -3,7 +3,8 @@ import React, { useState, useEffect, useCallback } from 'react';
 import type { User, Note } from '../../types';
 import NoteCard from './NoteCard';
 import AddNoteForm from './AddNoteForm';
-import { supabase } from '../../lib/supabaseClient';
+import { repositories } from '../../lib/repositories';
+import { request } from '../../lib/requestPipeline';
 
 interface NotesDashboardProps {
   user: User;
@@ -15,16 +16,10 @@ const NotesDashboard: React.FC<NotesDashboardProps> = ({ user }) => {
 
   const fetchNotes = useCallback(async () => {
     setLoading(true);
-    const { data, error } = await supabase
-      .from('notes')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    try {
+      setNotes(await request(() => repositories.notes.listForUser(user.id)));
+    } catch (error) {
       console.error("Error fetching notes:", error);
-    } else {
-      setNotes(data as Note[]);
     }
     setLoading(false);
   }, [user.id]);
@@ -34,16 +29,11 @@ const NotesDashboard: React.FC<NotesDashboardProps> = ({ user }) => {
   }, [fetchNotes]);
 
   const handleAddNote = async (content: string) => {
-    const { data, error } = await supabase
-      .from('notes')
-      .insert({ content, user_id: user.id })
-      .select()
-      .single();
-
-    if (error) {
+    try {
+      const note = await request(() => repositories.notes.create({ content, user_id: user.id }), { retry: false });
+      setNotes(prevNotes => [note, ...prevNotes]);
+    } catch (error) {
       console.error("Error adding note:", error);
-    } else if (data) {
-      setNotes(prevNotes => [data as Note, ...prevNotes]);
     }
   };
 
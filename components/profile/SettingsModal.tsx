@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import type { User } from '../../types';
+import { SELECTABLE_REGIONS, resolveRegion } from '../../lib/regions';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -12,18 +13,21 @@ interface SettingsModalProps {
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, onSave }) => {
     const [bio, setBio] = useState('');
     const [privacy, setPrivacy] = useState<User['profile']['privacy']>('public');
+    const [regionId, setRegionId] = useState(''); // Empty means the deployment default
 
     useEffect(() => {
         if (user) {
             setBio(user.profile.bio);
             setPrivacy(user.profile.privacy);
+            // A region that can no longer be picked counts as the default, as it does everywhere else.
+            setRegionId(SELECTABLE_REGIONS.some(region => region.id === user.profile.region_id) ? user.profile.region_id! : '');
         }
     }, [user, isOpen]);
 
     const handleSave = (e: React.FormEvent) => {
         e.preventDefault();
         // FIX: The 'Profile' type requires a username. Since it is not editable here, we pass the existing username.
-        onSave({ username: user.profile.username, bio, privacy });
+        onSave({ username: user.profile.username, bio, privacy, region_id: regionId || null });
     };
 
     if (!isOpen) return null;
@@ -66,6 +70,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, on
                         </p>
                     </div>
 
+                    <div>
+                        <label htmlFor="region" className="text-sm font-medium text-gray-700">Region</label>
+                        <select id="region" value={regionId} onChange={e => setRegionId(e.target.value)} className="mt-1 block w-full px-4 py-2 bg-gray-50 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-green-500">
+                            <option value="">Default ({resolveRegion(null).name})</option>
+                            {SELECTABLE_REGIONS.map(region => (
+                                <option key={region.id} value={region.id}>{region.name}</option>
+                            ))}
+                        </select>
+                        <p className="mt-2 text-xs text-gray-500">Where the map opens and where you can create vibes.</p>
+                    </div>
+
                     <div className="flex justify-end space-x-4 pt-4 border-t border-gray-200">
                         <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2">Cancel</button>
                         <button type="submit" className="px-6 py-2 bg-green-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2">Save Changes</button>
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import type { Topic } from '../../types';
+import { repositories } from '../../lib/repositories';
+import { request } from '../../lib/requestPipeline';
+import { MAX_TAGS_PER_VIBE, sameTag } from '../../lib/tags';
+import TagSearchInput from './TagSearchInput';
+
+interface TagPickerProps {
+    selected: Topic[];
+    onChange: (topics: Topic[]) => void;
+}
+
+const QUICK_PICK_LIMIT = 10;
+
+// Picks a vibe's tags: quick picks from the popular ones, or search and create any other.
+const TagPicker: React.FC<TagPickerProps> = ({ selected, onChange }) => {
+    const [popular, setPopular] = useState<Topic[]>([]);
+
+    useEffect(() => {
+        request(() => repositories.tags.listPopular(QUICK_PICK_LIMIT))
+          .then(tags => setPopular(tags.map(tag => tag.label)))
+          .catch(error => console.error("Error fetching popular tags:", error));
+    }, []);
+
+    const isFull = selected.length >= MAX_TAGS_PER_VIBE;
+    const add = (topic: Topic) => {
+        if (!isFull && !selected.some(t => sameTag(t, topic))) onChange([...selected, topic]);
+    };
+    const remove = (topic: Topic) => onChange(selected.filter(t => t !== topic));
+    const quickPicks = popular.filter(topic => !selected.some(t => sameTag(t, topic)));
+
+    return (
+        <div className="mt-2 space-y-2">
+            {selected.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {selected.map(topic => (
+                        <span key={topic} className="inline-flex items-center pl-3 pr-1 py-1 text-sm font-medium rounded-full bg-purple-600 text-white">
+                            {topic}
+                            <button type="button" onClick={() => remove(topic)} className="ml-1 px-1 rounded-full hover:bg-purple-700" aria-label={`Remove ${topic}`}>
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            {!isFull && quickPicks.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {quickPicks.map(topic => (
+                        <button type="button" key={topic} onClick={() => add(topic)} className="px-3 py-1.5 text-sm font-medium rounded-full transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300">
+                            {topic}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <TagSearchInput
+                onPick={add}
+                exclude={selected}
+                allowCreate
+                placeholder={isFull ? `Up to ${MAX_TAGS_PER_VIBE} tags` : 'Search or create a tag...'}
+                disabled={isFull}
+            />
+            <p className="text-xs text-gray-500">New tags can be used right away and are suggested to others once a moderator approves them.</p>
+        </div>
+    );
+};
+
+export default TagPicker;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import type { Tag } from '../../types';
+import { repositories } from '../../lib/repositories';
+import { request, describeRequestError } from '../../lib/requestPipeline';
+
+interface TagReviewModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// Lets moderators approve or reject the tags people have created.
+const TagReviewModal: React.FC<TagReviewModalProps> = ({ isOpen, onClose }) => {
+    const [pending, setPending] = useState<Tag[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const fetchPending = async () => {
+            setIsLoading(true);
+            try {
+                setPending(await request(() => repositories.tags.listPending()));
+            } catch (fetchError) {
+                console.error("Error fetching pending tags:", fetchError);
+                setError(describeRequestError(fetchError, "Failed to load tags to review."));
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchPending();
+    }, [isOpen]);
+
+    const handleModerate = async (label: string, approve: boolean) => {
+        setError('');
+        try {
+            await request(() => repositories.tags.moderate(label, approve));
+            setPending(prev => prev.filter(tag => tag.label !== label));
+            console.log(`🏷️ Tag "${label}" ${approve ? 'approved' : 'rejected'}`);
+        } catch (moderateError) {
+            console.error("Error reviewing tag:", moderateError);
+            setError(describeRequestError(moderateError, "Failed to review that tag. Please try again."));
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <>
+            <div
+                onClick={onClose}
+                className="fixed inset-0 bg-black/50 z-[2000] transition-opacity duration-300 opacity-100"
+                aria-hidden="true"
+            />
+            <div
+                className="fixed inset-0 z-[2010] flex items-center justify-center p-4"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="tag-review-title"
+            >
+                <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl p-6 sm:p-8 space-y-4">
+                    <div>
+                        <h2 id="tag-review-title" className="text-2xl font-bold text-gray-800">Review Tags</h2>
+                        <p className="mt-1 text-sm text-gray-500">Approved tags are suggested to everyone. Rejected ones are removed from open vibes and can't be used again.</p>
+                    </div>
+                    {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                    {isLoading ? (
+                        <p className="text-center text-gray-500 animate-pulse">Loading tags...</p>
+                    ) : pending.length > 0 ? (
+                        <ul className="space-y-2">
+                            {pending.map(tag => (
+                                <li key={tag.label} className="flex items-center justify-between gap-2 bg-gray-50 p-3 rounded-lg">
+                                    <span>
+                                        <span className="block font-semibold text-gray-800">{tag.label}</span>
+                                        <span className="block text-xs text-gray-500">
+                                            Used on {tag.usage_count} {tag.usage_count === 1 ? 'vibe' : 'vibes'} · added {new Date(tag.created_at).toLocaleDateString()}
+                                        </span>
+                                    </span>
+                                    <div className="flex gap-2">
+                                        <button type="button" onClick={() => handleModerate(tag.label, true)} className="text-xs bg-green-100 text-green-800 font-semibold px-2 py-1 rounded hover:bg-green-200 transition-colors">
+                                            Approve
+                                        </button>
+                                        <button type="button" onClick={() => handleModerate(tag.label, false)} className="text-xs bg-red-100 text-red-800 font-semibold px-2 py-1 rounded hover:bg-red-200 transition-colors">
+                                            Reject
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-center text-gray-500">No tags waiting for review.</p>
+                    )}
+
+                    <div className="flex justify-end">
+                        <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2">Close</button>
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+};
+
+export default TagReviewModal;
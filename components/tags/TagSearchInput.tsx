@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import type { Tag, Topic } from '../../types';
+import { repositories } from '../../lib/repositories';
+import { request, describeRequestError } from '../../lib/requestPipeline';
+import { normalizeTagLabel, sameTag, validateTagLabel } from '../../lib/tags';
+
+interface TagSearchInputProps {
+    onPick: (label: Topic) => void;
+    exclude: Topic[];
+    // Offers "Create tag" when nothing matches exactly.
+    allowCreate: boolean;
+    placeholder: string;
+    disabled?: boolean;
+}
+
+const SUGGESTION_LIMIT = 6;
+const SEARCH_DEBOUNCE_MS = 200;
+
+// Autocomplete over the tag list, with usage counts.
+const TagSearchInput: React.FC<TagSearchInputProps> = ({ onPick, exclude, allowCreate, placeholder, disabled = false }) => {
+    const [input, setInput] = useState('');
+    const [results, setResults] = useState<Tag[]>([]);
+    const [highlighted, setHighlighted] = useState(0);
+    const [error, setError] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+
+    const label = normalizeTagLabel(input);
+
+    useEffect(() => {
+        if (!label) {
+            setResults([]);
+            return;
+        }
+        let isCurrent = true;
+        const timeoutId = setTimeout(async () => {
+            try {
+                // Extra rows make up for the ones already picked, which are hidden below.
+                const found = await request(() => repositories.tags.search(label, SUGGESTION_LIMIT * 2));
+                if (isCurrent) setResults(found);
+            } catch (searchError) {
+                console.error("Error searching tags:", searchError);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            isCurrent = false;
+            clearTimeout(timeoutId);
+        };
+    }, [label]);
+
+    const suggestions = results.filter(tag => !exclude.some(t => sameTag(t, tag.label))).slice(0, SUGGESTION_LIMIT);
+
+    const canCreate = allowCreate && !!label && !suggestions.some(tag => sameTag(tag.label, label))
+        && !exclude.some(t => sameTag(t, label));
+    const options = suggestions.length + (canCreate ? 1 : 0);
+
+    const pick = (picked: Topic) => {
+        onPick(picked);
+        setInput('');
+        setResults([]);
+        setHighlighted(0);
+        setError('');
+    };
+
+    const handleCreate = async () => {
+        const validationError = validateTagLabel(label);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setIsCreating(true);
+        try {
+            const tag = await request(() => repositories.tags.create(label));
+            console.log(`🏷️ Tag "${tag.label}" is ${tag.status}`);
+            pick(tag.label);
+        } catch (createError) {
+            console.error("Error creating tag:", createError);
+            setError(describeRequestError(createError, "Failed to add that tag. Please try again."));
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const choose = (index: number) => {
+        if (index < suggestions.length) pick(suggestions[index].label);
+        else if (canCreate) handleCreate();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' && options > 0) {
+            e.preventDefault();
+            setHighlighted((highlighted + 1) % options);
+        } else if (e.key === 'ArrowUp' && options > 0) {
+            e.preventDefault();
+            setHighlighted((highlighted - 1 + options) % options);
+        } else if (e.key === 'Enter') {
+            // Keeps Enter from submitting the surrounding form.
+            e.preventDefault();
+            if (options > 0) choose(Math.min(highlighted, options - 1));
+        } else if (e.key === 'Escape') {
+            setInput('');
+        }
+    };
+
+    return (
+        <div className="relative">
+            <input
+                type="text"
+                value={input}
+                onChange={e => { setInput(e.target.value); setHighlighted(0); setError(''); }}
+                onKeyDown={handleKeyDown}
+                placeholder={placeholder}
+                disabled={disabled || isCreating}
+                role="combobox"
+                aria-expanded={options > 0}
+                aria-autocomplete="list"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-100"
+            />
+            {options > 0 && (
+                <ul className="absolute left-0 right-0 mt-1 bg-white rounded-lg shadow-lg border border-gray-200 z-10 py-1" role="listbox">
+                    {suggestions.map((tag, index) => (
+                        <li key={tag.label} role="option" aria-selected={index === highlighted}>
+                            <button
+                                type="button"
+                                onMouseDown={e => e.preventDefault()}
+                                onClick={() => pick(tag.label)}
+                                className={`w-full text-left px-3 py-1.5 text-sm flex justify-between ${index === highlighted ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+                            >
+                                <span>{tag.label}{tag.status === 'pending' && <span className="ml-1 text-xs text-gray-400">(in review)</span>}</span>
+                                <span className="text-xs text-gray-400">{tag.usage_count} {tag.usage_count === 1 ? 'vibe' : 'vibes'}</span>
+                            </button>
+                        </li>
+                    ))}
+                    {canCreate && (
+                        <li role="option" aria-selected={highlighted === suggestions.length}>
+                            <button
+                                type="button"
+                                onMouseDown={e => e.preventDefault()}
+                                onClick={handleCreate}
+                                className={`w-full text-left px-3 py-1.5 text-sm text-green-700 font-semibold ${highlighted === suggestions.length ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+                            >
+                                + Create tag "{label}"
+                            </button>
+                        </li>
+                    )}
+                </ul>
+            )}
+            {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+export default TagSearchInput;
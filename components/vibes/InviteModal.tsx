@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import type { Event, VibeInvite } from '../../types';
+import { repositories } from '../../lib/repositories';
+import { request, describeRequestError } from '../../lib/requestPipeline';
+import { inviteLink } from '../../lib/invites';
+
+interface InviteModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    vibe: Event;
+}
+
+// Lets the host of an invite-only vibe hand out and revoke invite codes.
+const InviteModal: React.FC<InviteModalProps> = ({ isOpen, onClose, vibe }) => {
+    const [invites, setInvites] = useState<VibeInvite[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [copiedId, setCopiedId] = useState<number | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const fetchInvites = async () => {
+            setIsLoading(true);
+            try {
+                setInvites(await request(() => repositories.invites.listForEvent(vibe.id)));
+            } catch (fetchError) {
+                console.error("Error fetching invites:", fetchError);
+                setError(describeRequestError(fetchError, "Failed to load invites."));
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchInvites();
+    }, [isOpen, vibe.id]);
+
+    const handleCreate = async () => {
+        setError('');
+        try {
+            const invite = await request(() => repositories.invites.create(vibe.id), { retry: false });
+            setInvites(prev => [invite, ...prev]);
+        } catch (createError) {
+            console.error("Error creating invite:", createError);
+            setError(describeRequestError(createError, "Failed to create an invite. Please try again."));
+        }
+    };
+
+    const handleRevoke = async (inviteId: number) => {
+        setError('');
+        try {
+            await request(() => repositories.invites.revoke(inviteId));
+            setInvites(prev => prev.filter(invite => invite.id !== inviteId));
+        } catch (revokeError) {
+            console.error("Error revoking invite:", revokeError);
+            setError(describeRequestError(revokeError, "Failed to revoke the invite. Please try again."));
+        }
+    };
+
+    const handleCopy = async (invite: VibeInvite) => {
+        try {
+            await navigator.clipboard.writeText(inviteLink(invite.code));
+            setCopiedId(invite.id);
+            setTimeout(() => setCopiedId(id => id === invite.id ? null : id), 2000);
+        } catch (copyError) {
+            console.error("Error copying invite link:", copyError);
+            setError("Couldn't copy the link. Share the code instead.");
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <>
+            <div
+                onClick={onClose}
+                className="fixed inset-0 bg-black/50 z-[2000] transition-opacity duration-300 opacity-100"
+                aria-hidden="true"
+            />
+            <div
+                className="fixed inset-0 z-[2010] flex items-center justify-center p-4"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="invite-title"
+            >
+                <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl p-6 sm:p-8 space-y-4">
+                    <div>
+                        <h2 id="invite-title" className="text-2xl font-bold text-gray-800">Invite to {vibe.title}</h2>
+                        <p className="mt-1 text-sm text-gray-500">This vibe is invite only. Anyone with a link or code can see and join it until you revoke it.</p>
+                    </div>
+                    {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                    {isLoading ? (
+                        <p className="text-center text-gray-500 animate-pulse">Loading invites...</p>
+                    ) : invites.length > 0 ? (
+                        <ul className="space-y-2">
+                            {invites.map(invite => (
+                                <li key={invite.id} className="flex items-center justify-between gap-2 bg-gray-50 p-3 rounded-lg">
+                                    <span className="font-mono text-lg font-bold tracking-widest text-purple-800">{invite.code}</span>
+                                    <div className="flex gap-2">
+                                        <button type="button" onClick={() => handleCopy(invite)} className="text-xs bg-purple-100 text-purple-800 font-semibold px-2 py-1 rounded hover:bg-purple-200 transition-colors">
+                                            {copiedId === invite.id ? 'Copied!' : 'Copy link'}
+                                        </button>
+                                        <button type="button" onClick={() => handleRevoke(invite.id)} className="text-xs bg-red-100 text-red-800 font-semibold px-2 py-1 rounded hover:bg-red-200 transition-colors">
+                                            Revoke
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-center text-gray-500">No active invites yet.</p>
+                    )}
+
+                    <div className="flex justify-end space-x-4">
+                        <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2">Close</button>
+                        <button type="button" onClick={handleCreate} className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2">New Invite</button>
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+};
+
+export default InviteModal;
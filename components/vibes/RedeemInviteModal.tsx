@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+
+interface RedeemInviteModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onRedeem: (code: string) => Promise<boolean>;
+}
+
+const RedeemInviteModal: React.FC<RedeemInviteModalProps> = ({ isOpen, onClose, onRedeem }) => {
+    const [code, setCode] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!code.trim()) return;
+        setIsSubmitting(true);
+        const redeemed = await onRedeem(code);
+        setIsSubmitting(false);
+        if (redeemed) setCode('');
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <>
+            <div
+                onClick={onClose}
+                className="fixed inset-0 bg-black/50 z-[2000] transition-opacity duration-300 opacity-100"
+                aria-hidden="true"
+            />
+            <div
+                className="fixed inset-0 z-[2010] flex items-center justify-center p-4"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="redeem-invite-title"
+            >
+                <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-2xl shadow-2xl p-6 sm:p-8 space-y-4">
+                    <h2 id="redeem-invite-title" className="text-2xl font-bold text-gray-800">Have an invite?</h2>
+                    <div>
+                        <label htmlFor="invite-code" className="text-sm font-medium text-gray-700">Invite code</label>
+                        <input id="invite-code" type="text" value={code} onChange={e => setCode(e.target.value)} autoComplete="off" autoCapitalize="characters" className="mt-1 block w-full px-4 py-2 bg-gray-50 border border-gray-300 rounded-lg text-gray-900 font-mono tracking-widest uppercase focus:outline-none focus:ring-2 focus:ring-purple-500" placeholder="e.g. K7QM2XPA" />
+                    </div>
+                    <div className="flex justify-end space-x-4">
+                        <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2">Cancel</button>
+                        <button type="submit" disabled={isSubmitting || !code.trim()} className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                            {isSubmitting ? 'Checking...' : 'Find Vibe'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </>
+    );
+};
+
+export default RedeemInviteModal;
@@ -1,7 +1,11 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import type { User, Event, VibeMessage } from '../../types';
-import { supabase } from '../../lib/supabaseClient';
+import type { User, Event, VibeMessage, ProfileSummary, JoinRequest, VibeCheckIn, CheckInStatus } from '../../types';
+import { repositories } from '../../lib/repositories';
+import { request, describeRequestError } from '../../lib/requestPipeline';
+import { describeVibeChanges, isCheckInOpen, vibeRole, CHECK_IN_LEAD_MINUTES, type VibeRole } from '../../lib/vibes';
+import { readDevicePosition, describeLocationError } from '../../lib/geolocation';
+import { formatDistance } from '../../lib/geo';
 
 interface VibeChatPanelProps {
     isOpen: boolean;
@@ -12,31 +16,114 @@ interface VibeChatPanelProps {
     onSendMessage: (text: string) => void;
     onLeaveVibe: (eventId: number) => void;
     onViewProfile: (username: string) => void;
+    onSetCohost: (eventId: number, userId: string, isCohost: boolean) => void;
+    onTransferOwnership: (eventId: number, userId: string) => void;
+    // Pending requests to join this vibe; only passed to hosts.
+    joinRequests: JoinRequest[];
+    onDecideRequest: (eventId: number, userId: string, accept: boolean) => void;
+    // Receives the position read when checking in, so the map's copy stays current.
+    onLocated: (coords: [number, number]) => void;
 }
 
+const ROLE_BADGES: Record<VibeRole, { label: string; className: string } | null> = {
+    host: { label: '👑 Host', className: 'bg-yellow-100 text-yellow-800' },
+    cohost: { label: '⭐ Co-host', className: 'bg-purple-100 text-purple-800' },
+    member: null,
+};
+
+const CHECK_IN_BADGES: Record<CheckInStatus, { label: string; className: string }> = {
+    here: { label: '📍 Here', className: 'bg-green-100 text-green-800' },
+    on_the_way: { label: '🚶 On the way', className: 'bg-blue-100 text-blue-800' },
+};
+
+// Checking in wants a fresh, precise fix rather than the map's possibly stale one.
+const CHECK_IN_POSITION_OPTIONS: PositionOptions = { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 };
+
 const QUICK_REPLIES = ["On my way!", "Here!", "Running late", "Where are you?", "Let's go!"];
 
-const VibeChatPanel: React.FC<VibeChatPanelProps> = ({ isOpen, onClose, vibe, messages, user, onSendMessage, onLeaveVibe, onViewProfile }) => {
+const VibeChatPanel: React.FC<VibeChatPanelProps> = ({ isOpen, onClose, vibe, messages, user, onSendMessage, onLeaveVibe, onViewProfile, onSetCohost, onTransferOwnership, joinRequests, onDecideRequest, onLocated }) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const [messageText, setMessageText] = useState('');
-    const [participants, setParticipants] = useState<{id: string; username: string}[]>([]);
-    const [activeTab, setActiveTab] = useState<'chat' | 'participants'>('chat');
-    const isCreator = user.id === vibe.creator_id;
+    const [participants, setParticipants] = useState<ProfileSummary[]>([]);
+    const [activeTab, setActiveTab] = useState<'chat' | 'participants' | 'requests'>('chat');
+    const [requesterNames, setRequesterNames] = useState<Record<string, string>>({});
+    const myRole = vibeRole(vibe, user.id);
+    const previousVibeRef = useRef(vibe);
+    const [updatedFields, setUpdatedFields] = useState<string[]>([]);
+    const [checkIns, setCheckIns] = useState<Record<string, VibeCheckIn>>({});
+    const [isCheckingIn, setIsCheckingIn] = useState(false);
+    const [checkInNotice, setCheckInNotice] = useState('');
+    const myCheckIn = checkIns[user.id];
+
+    // Realtime edits from the host arrive as a new `vibe`; tell everyone else what changed.
+    useEffect(() => {
+        const previous = previousVibeRef.current;
+        previousVibeRef.current = vibe;
+        if (previous.id !== vibe.id) {
+            setUpdatedFields([]);
+            return;
+        }
+        if (myRole !== 'member') return;
+        const changes = describeVibeChanges(previous, vibe);
+        if (changes.length > 0) {
+            setUpdatedFields(prev => [...new Set([...prev, ...changes])]);
+        }
+    }, [vibe, myRole]);
 
     useEffect(() => {
         if (vibe?.participants.length > 0) {
             const fetchParticipants = async () => {
-                const { data, error } = await supabase
-                    .from('profiles')
-                    .select('id, username')
-                    .in('id', vibe.participants);
-                if (error) console.error("Error fetching participants:", error);
-                else setParticipants(data);
+                try {
+                    setParticipants(await request(() => repositories.profiles.listSummaries(vibe.participants)));
+                } catch (error) {
+                    console.error("Error fetching participants:", error);
+                }
             };
             fetchParticipants();
         }
     }, [vibe]);
     
+    useEffect(() => {
+        const applyCheckIn = (checkIn: VibeCheckIn) => setCheckIns(prev => ({ ...prev, [checkIn.user_id]: checkIn }));
+        request(() => repositories.checkIns.listForEvent(vibe.id))
+            .then(rows => rows.forEach(applyCheckIn))
+            .catch(error => console.error("Error fetching check-ins:", error));
+        return repositories.checkIns.subscribeToEvent(vibe.id, applyCheckIn);
+    }, [vibe.id]);
+
+    const handleCheckIn = async () => {
+        setIsCheckingIn(true);
+        setCheckInNotice('');
+        try {
+            const coords = await readDevicePosition(CHECK_IN_POSITION_OPTIONS);
+            onLocated(coords);
+            const checkIn = await request(() => repositories.checkIns.checkIn(vibe.id, { lat: coords[0], lng: coords[1] }));
+            setCheckIns(prev => ({ ...prev, [checkIn.user_id]: checkIn }));
+            if (checkIn.status === 'on_the_way') {
+                setCheckInNotice(`You're about ${formatDistance(checkIn.distance_m)} away, so you're on the way. Check in again when you arrive.`);
+            }
+            console.log(`📍 Checked in to vibe ${vibe.id}: ${checkIn.status}`);
+        } catch (error) {
+            console.error("Error checking in:", error);
+            setCheckInNotice(error instanceof GeolocationPositionError
+                ? describeLocationError(error)
+                : describeRequestError(error, "Failed to check in. Please try again."));
+        } finally {
+            setIsCheckingIn(false);
+        }
+    };
+
+    useEffect(() => {
+        const unknownIds = joinRequests.map(r => r.user_id).filter(id => !(id in requesterNames));
+        if (unknownIds.length === 0) return;
+        request(() => repositories.profiles.listSummaries(unknownIds))
+            .then(summaries => setRequesterNames(prev => ({
+                ...prev,
+                ...Object.fromEntries(unknownIds.map(id => [id, summaries.find(s => s.id === id)?.username ?? 'Unknown'])),
+            })))
+            .catch(error => console.error("Error fetching requesters:", error));
+    }, [joinRequests, requesterNames]);
+
     const handleFormSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (messageText.trim()) {
@@ -106,20 +193,75 @@ const VibeChatPanel: React.FC<VibeChatPanelProps> = ({ isOpen, onClose, vibe, me
     const renderParticipants = () => (
         <div className="flex-grow overflow-y-auto py-4 px-2">
             <ul className="space-y-2">
-                {participants.map(participant => (
-                    <li key={participant.id}>
-                        <button onClick={() => onViewProfile(participant.username)} className="w-full text-left flex items-center justify-between p-3 bg-white rounded-lg shadow-sm hover:bg-gray-100 transition-colors">
-                            <span className="font-semibold text-gray-800">{participant.username} {participant.id === user.id && '(You)'} {participant.id === vibe.creator_id && '👑'}</span>
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" />
-                            </svg>
-                        </button>
-                    </li>
-                ))}
+                {participants.map(participant => {
+                    const role = vibeRole(vibe, participant.id);
+                    const badge = ROLE_BADGES[role];
+                    const checkIn = checkIns[participant.id];
+                    // Only the host hands out roles, and never to themselves.
+                    const canManage = myRole === 'host' && participant.id !== user.id;
+                    return (
+                        <li key={participant.id} className="bg-white rounded-lg shadow-sm">
+                            <button onClick={() => onViewProfile(participant.username)} className="w-full text-left flex items-center justify-between p-3 rounded-lg hover:bg-gray-100 transition-colors">
+                                <span className="flex items-center gap-2 font-semibold text-gray-800">
+                                    {participant.username} {participant.id === user.id && '(You)'}
+                                    {badge && <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${badge.className}`}>{badge.label}</span>}
+                                    {checkIn && (
+                                        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${CHECK_IN_BADGES[checkIn.status].className}`} title={`Updated ${new Date(checkIn.updated_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}>
+                                            {CHECK_IN_BADGES[checkIn.status].label}
+                                        </span>
+                                    )}
+                                </span>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" />
+                                </svg>
+                            </button>
+                            {canManage && (
+                                <div className="flex gap-2 px-3 pb-3">
+                                    <button onClick={() => onSetCohost(vibe.id, participant.id, role !== 'cohost')} className="text-xs bg-purple-100 text-purple-800 font-semibold px-2 py-1 rounded hover:bg-purple-200 transition-colors">
+                                        {role === 'cohost' ? 'Remove co-host' : 'Make co-host'}
+                                    </button>
+                                    <button onClick={() => onTransferOwnership(vibe.id, participant.id)} className="text-xs bg-yellow-100 text-yellow-800 font-semibold px-2 py-1 rounded hover:bg-yellow-200 transition-colors">
+                                        Make host
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
             </ul>
         </div>
     );
 
+    const renderRequests = () => (
+        <div className="flex-grow overflow-y-auto py-4 px-2">
+            {joinRequests.length > 0 ? (
+                <ul className="space-y-2">
+                    {joinRequests.map(joinRequest => {
+                        const username = requesterNames[joinRequest.user_id];
+                        return (
+                            <li key={joinRequest.user_id} className="flex items-center justify-between gap-2 p-3 bg-white rounded-lg shadow-sm">
+                                <button onClick={() => username && onViewProfile(username)} className="text-left font-semibold text-gray-800 hover:underline">
+                                    {username ?? '...'}
+                                    <span className="block text-xs font-normal text-gray-500">Asked {new Date(joinRequest.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                                </button>
+                                <div className="flex gap-2">
+                                    <button onClick={() => onDecideRequest(vibe.id, joinRequest.user_id, true)} className="text-xs bg-green-100 text-green-800 font-semibold px-3 py-1.5 rounded hover:bg-green-200 transition-colors">
+                                        Accept
+                                    </button>
+                                    <button onClick={() => onDecideRequest(vibe.id, joinRequest.user_id, false)} className="text-xs bg-red-100 text-red-800 font-semibold px-3 py-1.5 rounded hover:bg-red-200 transition-colors">
+                                        Decline
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            ) : (
+                <div className="text-center text-gray-500 pt-16">No one is waiting to join.</div>
+            )}
+        </div>
+    );
+
     return (
         <>
             <div 
@@ -148,6 +290,15 @@ const VibeChatPanel: React.FC<VibeChatPanelProps> = ({ isOpen, onClose, vibe, me
                         </button>
                     </div>
 
+                    {updatedFields.length > 0 && (
+                        <div className="flex-shrink-0 flex items-center justify-between gap-2 mb-2 px-3 py-2 bg-amber-100 text-amber-900 text-sm rounded-lg" role="status">
+                            <span>✏️ The host updated this vibe's {updatedFields.join(', ')}.</span>
+                            <button onClick={() => setUpdatedFields([])} className="text-amber-700 hover:text-amber-900 font-semibold" aria-label="Dismiss update notice">
+                                OK
+                            </button>
+                        </div>
+                    )}
+
                     {/* Tabs */}
                     <div className="flex-shrink-0 border-b border-gray-200">
                         <nav className="flex justify-around -mb-px">
@@ -157,19 +308,35 @@ const VibeChatPanel: React.FC<VibeChatPanelProps> = ({ isOpen, onClose, vibe, me
                             <button onClick={() => setActiveTab('participants')} className={`py-3 px-1 border-b-2 font-medium text-sm ${activeTab === 'participants' ? 'border-purple-500 text-purple-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>
                                 Participants ({vibe.participants.length})
                             </button>
+                            {(myRole !== 'member' && (vibe.requires_approval || joinRequests.length > 0)) && (
+                                <button onClick={() => setActiveTab('requests')} className={`py-3 px-1 border-b-2 font-medium text-sm ${activeTab === 'requests' ? 'border-purple-500 text-purple-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>
+                                    Requests {joinRequests.length > 0 && <span className="ml-1 inline-block bg-red-500 text-white text-xs font-bold px-1.5 rounded-full">{joinRequests.length}</span>}
+                                </button>
+                            )}
                         </nav>
                     </div>
 
                     {/* Content */}
                     <div className="flex-grow flex flex-col overflow-hidden">
-                        {activeTab === 'participants' ? renderParticipants() : renderChat()}
+                        {activeTab === 'participants' ? renderParticipants() : activeTab === 'requests' ? renderRequests() : renderChat()}
                     </div>
                     
                     {/* Actions */}
                     <div className="flex-shrink-0 pt-2 border-t border-gray-200">
-                        {!isCreator && (
+                        {checkInNotice && <p className="text-sm text-gray-600 text-center mt-1" role="status">{checkInNotice}</p>}
+                        {myCheckIn?.status === 'here' ? (
+                            <p className="text-sm font-semibold text-green-700 text-center mt-2">📍 You're checked in</p>
+                        ) : isCheckInOpen(vibe) ? (
+                            <button onClick={handleCheckIn} disabled={isCheckingIn} className="w-full mt-2 py-3 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                                {isCheckingIn ? 'Checking your location...' : '📍 Check In'}
+                            </button>
+                        ) : (
+                            <p className="text-xs text-gray-500 text-center mt-2">Check-in opens {CHECK_IN_LEAD_MINUTES} minutes before the start.</p>
+                        )}
+                        {/* A host on their own closes the vibe from the map instead. */}
+                        {(myRole !== 'host' || vibe.participants.length > 1) && (
                              <button onClick={() => onLeaveVibe(vibe.id)} className="w-full mt-2 py-3 bg-red-500 text-white font-bold rounded-lg hover:bg-red-600 transition-colors">
-                                Leave Vibe
+                                {myRole === 'host' ? 'Leave & Hand Over' : 'Leave Vibe'}
                             </button>
                         )}
                     </div>
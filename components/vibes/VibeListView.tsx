@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import type { Event, User } from '../../types';
+import { formatVibeTime, isVibeHost, vibeEndTime, vibeStartTime } from '../../lib/vibes';
+import { distanceMeters, formatDistance } from '../../lib/geo';
+import {
+    DEFAULT_FILTERS,
+    listVibes,
+    type MembershipFilter,
+    type TimeWindow,
+    type VibeListFilters,
+    type VibeSort,
+} from '../../lib/vibeList';
+
+interface VibeListViewProps {
+    events: Event[];
+    user: User;
+    userLocation: [number, number] | null;
+    isZoomedOutTooFar: boolean;
+    onSelectVibe: (event: Event) => void;
+}
+
+const SORT_OPTIONS: [VibeSort, string][] = [
+    ['distance', 'Nearest'],
+    ['start', 'Starting soonest'],
+    ['ending', 'Ending soonest'],
+    ['participants', 'Most people'],
+];
+const MEMBERSHIP_OPTIONS: [MembershipFilter, string][] = [
+    ['all', 'All vibes'],
+    ['joined', 'Joined'],
+    ['hosted', 'Hosting'],
+];
+const WINDOW_OPTIONS: [TimeWindow, string][] = [
+    ['any', 'Any time'],
+    ['now', 'Live now'],
+    ['today', 'Today'],
+    ['week', 'This week'],
+];
+
+// The same vibes the map has loaded, as a list that works on small screens and with screen readers.
+const VibeListView: React.FC<VibeListViewProps> = ({ events, user, userLocation, isZoomedOutTooFar, onSelectVibe }) => {
+    const [sort, setSort] = useState<VibeSort>(userLocation ? 'distance' : 'start');
+    const [filters, setFilters] = useState<VibeListFilters>(DEFAULT_FILTERS);
+
+    const vibes = useMemo(
+        () => listVibes(events, { sort, filters, userId: user.id, userLocation }),
+        [events, sort, filters, user.id, userLocation],
+    );
+
+    const selectClass = "px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500";
+
+    return (
+        <section className="absolute inset-0 z-[1000] bg-green-50 flex flex-col" aria-labelledby="vibe-list-title">
+            <div className="flex-shrink-0 p-4 pt-28 space-y-3 bg-white/80 shadow-sm">
+                <h2 id="vibe-list-title" className="sr-only">Vibes nearby</h2>
+                <div className="flex flex-wrap gap-2">
+                    <label className="sr-only" htmlFor="vibe-list-sort">Sort by</label>
+                    <select id="vibe-list-sort" value={sort} onChange={e => setSort(e.target.value as VibeSort)} className={selectClass}>
+                        {SORT_OPTIONS.map(([value, label]) => (
+                            <option key={value} value={value} disabled={value === 'distance' && !userLocation}>{label}</option>
+                        ))}
+                    </select>
+                    <label className="sr-only" htmlFor="vibe-list-membership">Show</label>
+                    <select
+                        id="vibe-list-membership"
+                        value={filters.membership}
+                        onChange={e => setFilters(prev => ({ ...prev, membership: e.target.value as MembershipFilter }))}
+                        className={selectClass}
+                    >
+                        {MEMBERSHIP_OPTIONS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                    <label className="sr-only" htmlFor="vibe-list-window">When</label>
+                    <select
+                        id="vibe-list-window"
+                        value={filters.window}
+                        onChange={e => setFilters(prev => ({ ...prev, window: e.target.value as TimeWindow }))}
+                        className={selectClass}
+                    >
+                        {WINDOW_OPTIONS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="flex-grow overflow-y-auto p-4 pb-28">
+                {isZoomedOutTooFar && (
+                    <p className="mb-3 text-sm text-yellow-800 bg-yellow-100 p-3 rounded-lg" role="status">
+                        Zoom the map in to load the vibes around you.
+                    </p>
+                )}
+                {vibes.length === 0 ? (
+                    <p className="text-center text-gray-500 mt-8">No vibes match these filters.</p>
+                ) : (
+                    <ul className="space-y-3" aria-live="polite">
+                        {vibes.map(event => {
+                            const isMember = event.participants.includes(user.id);
+                            const distance = userLocation ? distanceMeters(userLocation, [event.lat, event.lng]) : null;
+                            return (
+                                <li key={event.id}>
+                                    <button
+                                        onClick={() => onSelectVibe(event)}
+                                        className="w-full text-left bg-white rounded-2xl shadow-sm p-4 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-green-500 transition-shadow"
+                                    >
+                                        <div className="flex justify-between items-start gap-2">
+                                            <h3 className="font-bold text-gray-800">{event.title}</h3>
+                                            {distance !== null && <span className="text-xs text-gray-500 flex-shrink-0">{formatDistance(distance)}</span>}
+                                        </div>
+                                        <div className="flex flex-wrap gap-1 my-2">
+                                            {event.status === 'live'
+                                                ? <span className="bg-green-100 text-green-800 text-xs font-semibold px-2 py-0.5 rounded-full">🟢 Live</span>
+                                                : <span className="bg-sky-100 text-sky-800 text-xs font-semibold px-2 py-0.5 rounded-full">Upcoming</span>}
+                                            {isVibeHost(event, user.id)
+                                                ? <span className="bg-yellow-100 text-yellow-800 text-xs font-semibold px-2 py-0.5 rounded-full">👑 Hosting</span>
+                                                : isMember && <span className="bg-purple-100 text-purple-800 text-xs font-semibold px-2 py-0.5 rounded-full">Joined</span>}
+                                            {event.topics.map(topic => (
+                                                <span key={topic} className="bg-purple-200 text-purple-800 text-xs font-semibold px-2 py-0.5 rounded-full">{topic}</span>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-gray-500">
+                                            {event.status === 'live'
+                                                ? `Ends at ${new Date(vibeEndTime(event)).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                                                : `Starts ${formatVibeTime(vibeStartTime(event))}`}
+                                            {' · '}👥 {event.max_participants ? `${event.participants.length}/${event.max_participants}` : event.participants.length}
+                                        </p>
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default VibeListView;
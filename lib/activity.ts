@@ -0,0 +1,38 @@
+import type { ActivityQuery } from './repositories/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A stretch of past vibes the activity heatmap can cover. Weekdays and hours are
+// read in the viewer's time zone, so "Friday nights" means their Friday.
+export interface ActivityWindow {
+  id: string;
+  label: string;
+  days: number; // How far back to look
+  weekdays?: number[]; // 0 = Sunday
+  hours?: [number, number]; // Start hour, inclusive, to end hour, exclusive
+}
+
+export const ACTIVITY_WINDOWS: ActivityWindow[] = [
+  { id: 'week', label: 'Last 7 days', days: 7 },
+  { id: 'month', label: 'Last 30 days', days: 30 },
+  { id: 'friday-nights', label: 'Friday nights', days: 90, weekdays: [5], hours: [18, 24] },
+  { id: 'weekends', label: 'Weekends', days: 90, weekdays: [0, 6] },
+];
+
+export const activityQuery = (window: ActivityWindow, now: number, timeZone: string): ActivityQuery => ({
+  since: new Date(now - window.days * DAY_MS).toISOString(),
+  weekdays: window.weekdays ?? null,
+  fromHour: window.hours?.[0] ?? null,
+  toHour: window.hours?.[1] ?? null,
+  timeZone,
+});
+
+// Mirrors the weekday and hour test in vibe_activity_in_bounds(), but in this
+// device's time zone like the rest of the in-memory backend.
+export const isInActivityWindow = (query: ActivityQuery, startTime: number) => {
+  const start = new Date(startTime);
+  if (query.weekdays && !query.weekdays.includes(start.getDay())) return false;
+  if (query.fromHour !== null && start.getHours() < query.fromHour) return false;
+  if (query.toHour !== null && start.getHours() >= query.toHour) return false;
+  return true;
+};
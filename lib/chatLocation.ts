@@ -0,0 +1,15 @@
+// The open chat is kept in the URL as ?chat=ID, so a reload (including the loading
+// watchdog in App.tsx, which clears storage) can reopen it.
+const CHAT_PARAM = 'chat';
+
+export const readOpenChatFromUrl = (): number | null => {
+  const id = Number(new URL(window.location.href).searchParams.get(CHAT_PARAM));
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+export const writeOpenChatToUrl = (eventId: number | null) => {
+  const url = new URL(window.location.href);
+  if (eventId === null) url.searchParams.delete(CHAT_PARAM);
+  else url.searchParams.set(CHAT_PARAM, String(eventId));
+  if (url.href !== window.location.href) window.history.replaceState(window.history.state, '', url.toString());
+};
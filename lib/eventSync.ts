@@ -0,0 +1,33 @@
+import type { Event } from '../types';
+import type { EventChange } from './repositories';
+import { isOpenStatus } from './vibes';
+
+/**
+ * Applies one realtime change to the list of open events. Anything that has ended,
+ * closed or been cancelled is dropped so the list keeps the same shape as `listActiveInBounds()`.
+ */
+export const applyEventChange = (events: Event[], change: EventChange): Event[] => {
+  if (change.type === 'DELETE' || !change.new) {
+    const id = change.old?.id;
+    return id === undefined ? events : events.filter(e => e.id !== id);
+  }
+
+  const next = change.new;
+  if (!isOpenStatus(next.status)) return events.filter(e => e.id !== next.id);
+
+  const index = events.findIndex(e => e.id === next.id);
+  if (index === -1) return [...events, next];
+  const updated = events.slice();
+  updated[index] = next;
+  return updated;
+};
+
+/**
+ * Applies one realtime change to the vibes a user belongs to: open vibes that list
+ * them in `participants` are kept up to date, anything else is dropped.
+ */
+export const applyMembershipChange = (vibes: Event[], change: EventChange, userId: string): Event[] => {
+  const next = change.new;
+  if (next && !next.participants.includes(userId)) return vibes.filter(e => e.id !== next.id);
+  return applyEventChange(vibes, change);
+};
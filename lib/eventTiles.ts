@@ -0,0 +1,154 @@
+import type { Event, MapBounds } from '../types';
+import type { EventChange } from './repositories';
+import { applyEventChange } from './eventSync';
+
+// Slippy-map tiles at zoom 12 are roughly 10km across, about one campus or town centre.
+const TILE_ZOOM = 12;
+// Beyond this many tiles the view is too far out to load event-by-event.
+const MAX_TILES_PER_VIEW = 64;
+const MAX_CACHED_TILES = 256;
+// Extra area loaded around the viewport so small pans don't hit the network.
+const VIEWPORT_MARGIN = 0.25;
+
+const tileCount = 2 ** TILE_ZOOM;
+
+const clampLat = (lat: number) => Math.max(-85.0511, Math.min(85.0511, lat));
+const tileX = (lng: number) => Math.min(tileCount - 1, Math.max(0, Math.floor((lng + 180) / 360 * tileCount)));
+const tileY = (lat: number) => {
+  const rad = clampLat(lat) * Math.PI / 180;
+  const y = Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * tileCount);
+  return Math.min(tileCount - 1, Math.max(0, y));
+};
+const tileLng = (x: number) => x / tileCount * 360 - 180;
+const tileLat = (y: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * y / tileCount))) * 180 / Math.PI;
+
+const keyOf = (x: number, y: number) => `${x}/${y}`;
+export const tileKeyAt = (lat: number, lng: number) => keyOf(tileX(lng), tileY(lat));
+
+const padBounds = ({ south, west, north, east }: MapBounds, ratio: number): MapBounds => {
+  const latPad = (north - south) * ratio;
+  const lngPad = (east - west) * ratio;
+  return { south: south - latPad, west: west - lngPad, north: north + latPad, east: east + lngPad };
+};
+
+// Tile keys covering the bounds, or null when there would be more than MAX_TILES_PER_VIEW.
+export const tilesForBounds = (bounds: MapBounds): string[] | null => {
+  const minX = tileX(bounds.west), maxX = tileX(bounds.east);
+  const minY = tileY(bounds.north), maxY = tileY(bounds.south);
+  if ((maxX - minX + 1) * (maxY - minY + 1) > MAX_TILES_PER_VIEW) return null;
+  const keys: string[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) keys.push(keyOf(x, y));
+  }
+  return keys;
+};
+
+const boundsOfTiles = (keys: string[]): MapBounds => {
+  const coords = keys.map(key => key.split('/').map(Number));
+  const xs = coords.map(([x]) => x), ys = coords.map(([, y]) => y);
+  return {
+    west: tileLng(Math.min(...xs)),
+    east: tileLng(Math.max(...xs) + 1),
+    north: tileLat(Math.min(...ys)),
+    south: tileLat(Math.max(...ys) + 1),
+  };
+};
+
+interface Tile {
+  events: Event[];
+  lastUsed: number;
+}
+
+// Moves the changed event into the tile it now belongs to, or out of the cache.
+const applyToTiles = (tiles: Map<string, Tile>, change: EventChange) => {
+  const id = change.new?.id ?? change.old?.id;
+  const owner = change.new ? tileKeyAt(change.new.lat, change.new.lng) : null;
+  tiles.forEach((tile, key) => {
+    if (key === owner) tile.events = applyEventChange(tile.events, change);
+    else if (tile.events.some(e => e.id === id)) tile.events = tile.events.filter(e => e.id !== id);
+  });
+};
+
+export interface EventTileCache {
+  // Loads whatever part of the viewport (plus margin) isn't cached yet. Resolves to
+  // false when the view is too far out to show individual events.
+  loadViewport(bounds: MapBounds): Promise<boolean>;
+  applyChange(change: EventChange): void;
+  events(): Event[];
+  clear(): void;
+}
+
+/**
+ * Caches active events per map tile. Loaded tiles are kept current by realtime
+ * changes, so a tile is only fetched again after it has been evicted or cleared.
+ * Changes that arrive while a tile is loading are replayed onto it once it lands,
+ * in order, so neither the change nor anything newer than the fetch is lost.
+ */
+export const createEventTileCache = (load: (bounds: MapBounds) => Promise<Event[]>): EventTileCache => {
+  const tiles = new Map<string, Tile>();
+  const pending = new Map<string, Promise<void>>();
+  // One buffer per load in flight, collecting the changes it has to catch up on.
+  const buffers = new Set<EventChange[]>();
+  // Bumped by clear() so loads that were in flight don't repopulate a cleared cache.
+  let generation = 0;
+
+  const evict = (keep: Set<string>) => {
+    if (tiles.size <= MAX_CACHED_TILES) return;
+    const candidates = [...tiles.entries()]
+      .filter(([key]) => !keep.has(key))
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    for (const [key] of candidates.slice(0, tiles.size - MAX_CACHED_TILES)) tiles.delete(key);
+  };
+
+  return {
+    async loadViewport(bounds) {
+      const keys = tilesForBounds(padBounds(bounds, VIEWPORT_MARGIN));
+      if (!keys) return false;
+
+      const now = Date.now();
+      keys.forEach(key => { const tile = tiles.get(key); if (tile) tile.lastUsed = now; });
+
+      const missing = keys.filter(key => !tiles.has(key) && !pending.has(key));
+      if (missing.length > 0) {
+        // One request for the box around every missing tile; results are bucketed by tile.
+        const startedIn = generation;
+        const buffered: EventChange[] = [];
+        buffers.add(buffered);
+        const fetching = load(boundsOfTiles(missing)).then(events => {
+          if (startedIn !== generation) return;
+          const fresh = new Map(missing.map(key => [key, { events: [] as Event[], lastUsed: now }]));
+          for (const event of events) fresh.get(tileKeyAt(event.lat, event.lng))?.events.push(event);
+          buffered.forEach(change => applyToTiles(fresh, change));
+          fresh.forEach((tile, key) => tiles.set(key, tile));
+        });
+        const settled: Promise<void> = fetching.finally(() => {
+          buffers.delete(buffered);
+          missing.forEach(key => {
+            if (pending.get(key) === settled) pending.delete(key);
+          });
+        });
+        missing.forEach(key => pending.set(key, settled));
+      }
+
+      await Promise.all(keys.map(key => pending.get(key)).filter(Boolean));
+      evict(new Set(keys));
+      return true;
+    },
+
+    applyChange(change) {
+      applyToTiles(tiles, change);
+      buffers.forEach(buffered => buffered.push(change));
+    },
+
+    events() {
+      return [...tiles.values()].flatMap(tile => tile.events);
+    },
+
+    clear() {
+      generation++;
+      tiles.clear();
+      pending.clear();
+      buffers.clear();
+    },
+  };
+};
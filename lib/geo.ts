@@ -0,0 +1,26 @@
+// Distances between [lat, lng] points and how they are shown.
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Great-circle distance; close enough to Leaflet's distanceTo() for sorting and display.
+export const distanceMeters = ([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(meters < 10000 ? 1 : 0)} km`;
+
+// A relaxed walking pace over the straight-line distance, so real routes take a bit longer.
+const WALKING_METERS_PER_MINUTE = 80;
+
+// "4 min walk", "1 h 15 min walk"
+export const formatWalkingTime = (meters: number) => {
+  const minutes = Math.max(1, Math.round(meters / WALKING_METERS_PER_MINUTE));
+  if (minutes < 60) return `${minutes} min walk`;
+  const rest = minutes % 60;
+  return rest === 0 ? `${Math.floor(minutes / 60)} h walk` : `${Math.floor(minutes / 60)} h ${rest} min walk`;
+};
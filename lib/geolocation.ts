@@ -0,0 +1,105 @@
+import { distanceMeters } from './geo';
+
+// One-off reads of the device position as [lat, lng].
+export const readDevicePosition = (options: PositionOptions) =>
+  new Promise<[number, number]>((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve([position.coords.latitude, position.coords.longitude]),
+      reject,
+      options,
+    );
+  });
+
+export const describeLocationError = (error: unknown) =>
+  (error as GeolocationPositionError | null)?.code === GeolocationPositionError.PERMISSION_DENIED
+    ? 'Location access denied. Please enable it in your browser settings.'
+    : 'Unable to retrieve your location.';
+
+export interface PositionFix {
+  coords: [number, number];
+  accuracy: number; // Meters, as reported by the device
+}
+
+// Fixes closer together than this are dropped, unless the position moved or got much
+// more precise. On a low, discharging battery the GPS is also left off.
+const TRACKING_INTERVAL_MS = 5 * 1000;
+const LOW_BATTERY_INTERVAL_MS = 30 * 1000;
+const LOW_BATTERY_LEVEL = 0.2;
+const MIN_MOVE_METERS = 10;
+
+// The parts of the Battery Status API used here; TypeScript's DOM types don't include it.
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+  level: number; // 0 to 1
+}
+
+type BatteryNavigator = Navigator & { getBattery(): Promise<BatteryManager> };
+
+const hasBatteryStatus = (nav: Navigator): nav is BatteryNavigator => 'getBattery' in nav;
+
+/**
+ * Follows the device position until the returned function is called. Updates are
+ * throttled to save battery, more so when it runs low where the browser can tell
+ * (navigator.getBattery is Chromium-only).
+ */
+export const watchDevicePosition = (
+  onFix: (fix: PositionFix) => void,
+  onError: (error: GeolocationPositionError) => void,
+) => {
+  let isLowBattery = false;
+  let isStopped = false;
+  let watchId: number | null = null;
+  let lastFix: PositionFix | null = null;
+  let lastFixAt = 0;
+  let stopBatteryWatch = () => {};
+
+  const startWatch = () => {
+    if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+    const interval = isLowBattery ? LOW_BATTERY_INTERVAL_MS : TRACKING_INTERVAL_MS;
+    watchId = navigator.geolocation.watchPosition(
+      position => {
+        const fix: PositionFix = { coords: [position.coords.latitude, position.coords.longitude], accuracy: position.coords.accuracy };
+        const now = Date.now();
+        if (lastFix) {
+          const isDue = now - lastFixAt >= interval;
+          const hasMoved = distanceMeters(lastFix.coords, fix.coords) >= MIN_MOVE_METERS;
+          const isSharper = fix.accuracy < lastFix.accuracy / 2;
+          if (!isSharper && !(isDue && hasMoved)) return;
+        }
+        lastFix = fix;
+        lastFixAt = now;
+        onFix(fix);
+      },
+      onError,
+      { enableHighAccuracy: !isLowBattery, maximumAge: interval, timeout: 20 * 1000 },
+    );
+  };
+
+  startWatch();
+
+  if (hasBatteryStatus(navigator)) navigator.getBattery()
+    .then(battery => {
+      if (isStopped) return;
+      const onBatteryChange = () => {
+        const isLow = !battery.charging && battery.level <= LOW_BATTERY_LEVEL;
+        if (isLow === isLowBattery || isStopped) return;
+        isLowBattery = isLow;
+        console.log(isLow ? '🪫 Battery low, tracking less often' : '🔋 Tracking at the normal rate');
+        startWatch();
+      };
+      battery.addEventListener('levelchange', onBatteryChange);
+      battery.addEventListener('chargingchange', onBatteryChange);
+      stopBatteryWatch = () => {
+        battery.removeEventListener('levelchange', onBatteryChange);
+        battery.removeEventListener('chargingchange', onBatteryChange);
+      };
+      onBatteryChange();
+    })
+    .catch(error => console.warn('Battery status unavailable', error));
+
+  return () => {
+    isStopped = true;
+    if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+    stopBatteryWatch();
+  };
+};
@@ -0,0 +1,21 @@
+// Invite links look like https://host/path?invite=CODE.
+const INVITE_PARAM = 'invite';
+
+export const inviteLink = (code: string) => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(INVITE_PARAM, code);
+  return url.toString();
+};
+
+// Reads the invite code from the current URL and removes it, so a reload doesn't
+// redeem the same invite again.
+export const takeInviteCodeFromUrl = (): string | null => {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get(INVITE_PARAM);
+  if (!code) return null;
+  url.searchParams.delete(INVITE_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+  return code;
+};
@@ -0,0 +1,62 @@
+import type { RecurrenceRule, VibeSeries } from '../types';
+import { MAX_SCHEDULE_AHEAD_DAYS } from './vibes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Whole days between two local dates, immune to DST because it compares calendar dates.
+const dayNumber = (date: Date) => Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+// Weeks start on Monday, like date_trunc('week') on the server.
+const weekNumber = (date: Date) => Math.floor((dayNumber(date) - 4) / 7); // 1970-01-05 was a Monday
+
+// Keeps the gap between occurrences within MAX_SCHEDULE_AHEAD_DAYS, mirrored by
+// vibe_series_interval_check in supabase/migrations.
+export const maxRepeatInterval = (frequency: RecurrenceRule['frequency']) =>
+  frequency === 'daily' ? MAX_SCHEDULE_AHEAD_DAYS : Math.floor(MAX_SCHEDULE_AHEAD_DAYS / 7);
+
+const weekdaysOf = (rule: RecurrenceRule, firstStart: Date) =>
+  rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [firstStart.getDay()];
+
+/**
+ * The first occurrence strictly after `after`, or null once the series has run out.
+ * Mirrors next_series_start() on the server, but evaluates the rule in this device's
+ * time zone; the server uses the zone stored on the series.
+ */
+export const nextOccurrenceStart = (
+  series: Pick<VibeSeries, 'first_start' | 'recurrence' | 'skipped_starts'>,
+  after: number,
+): number | null => {
+  const { recurrence: rule } = series;
+  const first = new Date(series.first_start);
+  const interval = Math.max(rule.interval || 1, 1);
+  const weekdays = weekdaysOf(rule, first);
+  const until = rule.until ? dayNumber(new Date(`${rule.until}T00:00`)) : null;
+  const skipped = new Set(series.skipped_starts.map(start => new Date(start).getTime()));
+
+  const from = new Date(Math.max(first.getTime(), after));
+  for (let i = 0; i <= 366 * interval; i++) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + i, first.getHours(), first.getMinutes());
+    if (until !== null && dayNumber(day) > until) return null;
+
+    const matches = rule.frequency === 'daily'
+      ? (dayNumber(day) - dayNumber(first)) % interval === 0
+      : weekdays.includes(day.getDay()) && (weekNumber(day) - weekNumber(first)) % interval === 0;
+    if (matches && day.getTime() > after && !skipped.has(day.getTime())) return day.getTime();
+  }
+  return null;
+};
+
+// "Every week on Mon, Wed until 31 Dec", "Every 2 days"
+export const describeRecurrence = (rule: RecurrenceRule, firstStart: string) => {
+  const interval = Math.max(rule.interval || 1, 1);
+  const unit = rule.frequency === 'daily' ? 'day' : 'week';
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (rule.frequency === 'weekly') {
+    const days = [...weekdaysOf(rule, new Date(firstStart))].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]);
+    text += ` on ${days.join(', ')}`;
+  }
+  if (rule.until) {
+    text += ` until ${new Date(`${rule.until}T00:00`).toLocaleDateString([], { day: 'numeric', month: 'short' })}`;
+  }
+  return text;
+};
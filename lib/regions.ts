@@ -0,0 +1,67 @@
+import { distanceMeters, formatDistance } from './geo';
+
+// A community the map is set up for: where it opens, where vibes may be created,
+// and which tiles it draws. The area is mirrored by the regions table in
+// supabase/migrations, which the server checks new and moved vibes against.
+export interface Region {
+  id: string;
+  name: string;
+  center: [number, number]; // Where the map opens when the user's location is unknown
+  zoom: number;
+  areaRadiusMeters: number | null; // Vibes must lie this close to `center`; null allows anywhere
+  createRadiusMeters: number; // How far from the host's own position a vibe can be placed
+  tiles: { url: string; attribution: string; maxZoom: number };
+}
+
+const OSM_TILES = {
+  url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19,
+};
+
+export const REGIONS: Region[] = [
+  {
+    id: 'iitgn',
+    name: 'IIT Gandhinagar',
+    center: [23.1925, 72.6844],
+    zoom: 13,
+    areaRadiusMeters: 25000,
+    createRadiusMeters: 5000,
+    tiles: OSM_TILES,
+  },
+  {
+    id: 'anywhere',
+    name: 'Anywhere',
+    center: [20, 0],
+    zoom: 3,
+    areaRadiusMeters: null,
+    createRadiusMeters: 5000,
+    tiles: OSM_TILES,
+  },
+];
+
+// Set VIBEX_REGION in .env.local to pick the deployment's default; it should match
+// the row marked is_default in the regions table.
+export const DEFAULT_REGION_ID = process.env.VIBEX_REGION || 'iitgn';
+
+// Regions users can pick for themselves: only those with an area, so a choice never
+// lifts the restriction. Mirrors region_for() in supabase/migrations.
+export const SELECTABLE_REGIONS = REGIONS.filter(region => region.areaRadiusMeters !== null);
+
+// The user's own choice if it can still be picked, otherwise the deployment default.
+export const resolveRegion = (id?: string | null): Region =>
+  SELECTABLE_REGIONS.find(region => region.id === id)
+    ?? REGIONS.find(region => region.id === DEFAULT_REGION_ID)
+    ?? REGIONS[0];
+
+export const isInRegionArea = (region: Region, point: [number, number]) =>
+  region.areaRadiusMeters === null || distanceMeters(region.center, point) <= region.areaRadiusMeters;
+
+// Why a spot can't take a vibe, or null if it can.
+export const validateVibeSpot = (region: Region, userLocation: [number, number], point: [number, number]): string | null => {
+  if (distanceMeters(userLocation, point) > region.createRadiusMeters) {
+    return `Please pick a spot within ${formatDistance(region.createRadiusMeters)} of you.`;
+  }
+  if (!isInRegionArea(region, point)) return `That spot is outside ${region.name}.`;
+  return null;
+};
@@ -0,0 +1,32 @@
+// SQLSTATEs raised by our own database functions (see supabase/migrations).
+export const VIBE_FULL = 'VX409';
+export const VIBE_ENDED = 'VX410';
+export const INVITE_INVALID = 'VX404';
+export const APPROVAL_REQUIRED = 'VX428';
+export const TAG_INVALID = 'VX422';
+export const CHECK_IN_TOO_EARLY = 'VX425';
+export const OUTSIDE_REGION = 'VX403';
+
+// Normalised error thrown by every repository implementation so callers never
+// have to care whether it came from PostgREST, the auth client or the in-memory store.
+export class DataError extends Error {
+  code?: string;
+  status?: number;
+
+  constructor(message: string, options: { code?: string; status?: number; cause?: unknown } = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'DataError';
+    this.code = options.code;
+    this.status = options.status;
+  }
+
+  static from(error: unknown, status?: number): DataError {
+    if (error instanceof DataError) return error;
+    const details = error as { message?: string; code?: string; status?: number } | null | undefined;
+    return new DataError(details?.message ?? String(error), {
+      code: details?.code,
+      status: details?.status ?? status,
+      cause: error,
+    });
+  }
+}
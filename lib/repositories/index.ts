@@ -0,0 +1,13 @@
+import { createSupabaseRepositories } from './supabaseRepositories';
+import { createMemoryRepositories } from './memoryRepositories';
+import type { Repositories } from './types';
+
+export * from './types';
+export { DataError, VIBE_FULL, VIBE_ENDED, INVITE_INVALID, APPROVAL_REQUIRED, TAG_INVALID, CHECK_IN_TOO_EARLY, OUTSIDE_REGION } from './errors';
+export { createSupabaseRepositories } from './supabaseRepositories';
+export { createMemoryRepositories, DEMO_ACCOUNT } from './memoryRepositories';
+
+// Set DATA_BACKEND=memory in .env.local to run the whole app without a Supabase project.
+export const repositories: Repositories = process.env.DATA_BACKEND === 'memory'
+  ? createMemoryRepositories()
+  : createSupabaseRepositories();
@@ -0,0 +1,783 @@
+import type { Event, VibeMessage, Note, Profile, User, VibeStatus, VibeSeries, VibeInvite, JoinRequest, Tag, Topic, VibeTemplate, VibeCheckIn } from '../../types';
+import { DataError, VIBE_FULL, VIBE_ENDED, INVITE_INVALID, APPROVAL_REQUIRED, TAG_INVALID, CHECK_IN_TOO_EARLY, OUTSIDE_REGION } from './errors';
+import { isOpenStatus, isVibeHost, vibeStatusAt, vibeStartTime, isCheckInOpen, CHECK_IN_RADIUS_METERS, MIN_DURATION_MINUTES, MAX_DURATION_MINUTES } from '../vibes';
+import { distanceMeters } from '../geo';
+import { isInRegionArea, resolveRegion } from '../regions';
+import { maxRepeatInterval, nextOccurrenceStart } from '../recurrence';
+import { isInActivityWindow } from '../activity';
+import { EMPTY_FILTER, matchesFilter } from '../vibeFilter';
+import { MAX_TAGS_PER_VIBE, normalizeTagLabel, sameTag, validateTagLabel } from '../tags';
+import type { Repositories, EventRow, EventChange, AuthSession, AuthUser, NewEvent, SeriesPatch } from './types';
+
+interface MemoryAccount {
+  user: AuthUser;
+  password: string;
+}
+
+type MessageRow = Omit<VibeMessage, 'sender'>;
+
+export interface MemorySeed {
+  accounts?: { id?: string; email: string; password: string; username: string }[];
+  events?: EventRow[];
+  messages?: MessageRow[];
+  notes?: Note[];
+}
+
+export const DEMO_ACCOUNT = { email: 'demo@vibex.local', password: 'vibex-demo', username: 'demo' };
+
+// Stand-in for the advance_vibe_lifecycle() cron job while anyone is subscribed.
+const LIFECYCLE_INTERVAL_MS = 15 * 1000;
+const TIMED_STATUSES: VibeStatus[] = ['scheduled', 'live', 'ended'];
+// Vibes that actually took place, for the activity heatmap.
+const HELD_STATUSES: VibeStatus[] = ['live', 'ended', 'closed'];
+
+// The base set seeded by the vibe_tags migration.
+const CURATED_TAGS = ['Food', 'Movies', 'Arts', 'Music', 'Sports', 'Tech', 'Social'];
+
+// Same alphabet as generate_invite_code(): no 0/O or 1/I/L look-alikes.
+const INVITE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+const newId = () => crypto.randomUUID();
+const newInviteCode = () =>
+  [...crypto.getRandomValues(new Uint8Array(8))].map(byte => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]).join('');
+const clone = <T>(value: T): T => structuredClone(value);
+
+// Listeners are notified on a microtask so callers observe the same ordering as
+// with a real realtime channel: the write resolves before the change arrives.
+const emit = <T>(listeners: Set<(value: T) => void>, value: T) => {
+  queueMicrotask(() => listeners.forEach(listener => listener(clone(value))));
+};
+
+/**
+ * A complete, dependency-free implementation of the repository layer. State lives
+ * only as long as the returned object, which makes it suitable both for running
+ * the app offline and for component tests.
+ */
+export const createMemoryRepositories = (seed: MemorySeed = { accounts: [DEMO_ACCOUNT] }): Repositories => {
+  const accounts = new Map<string, MemoryAccount>();
+  const profiles = new Map<string, Profile>();
+  const events = new Map<number, EventRow>();
+  const series = new Map<number, VibeSeries>();
+  const invites = new Map<number, VibeInvite>();
+  // Who redeemed which invite, per event: event id -> user id -> invite id.
+  const guests = new Map<number, Map<string, number>>();
+  const joinRequests: JoinRequest[] = [];
+  // Keyed by lower-cased label; usage_count is worked out when read.
+  const tags = new Map<string, Omit<Tag, 'usage_count'>>();
+  const templates = new Map<number, VibeTemplate>();
+  const checkIns: VibeCheckIn[] = [];
+  const messages: MessageRow[] = [];
+  const notes: Note[] = [];
+  let nextEventId = 1;
+  let nextSeriesId = 1;
+  let nextInviteId = 1;
+  let nextTemplateId = 1;
+  let nextMessageId = 1;
+  let nextNoteId = 1;
+  let session: AuthSession | null = null;
+  let lifecycleTimer: ReturnType<typeof setInterval> | null = null;
+
+  const authListeners = new Set<(change: { event: string; session: AuthSession | null }) => void>();
+  const eventListeners = new Set<(change: EventChange) => void>();
+  const messageListeners = new Set<(message: MessageRow) => void>();
+  const joinRequestListeners = new Set<(request: JoinRequest) => void>();
+  const checkInListeners = new Set<(checkIn: VibeCheckIn) => void>();
+
+  for (const account of seed.accounts ?? []) {
+    const id = account.id ?? newId();
+    accounts.set(account.email, {
+      user: { id, email: account.email, aud: 'authenticated', user_metadata: { username: account.username } },
+      password: account.password,
+    });
+    profiles.set(id, { username: account.username, bio: '', privacy: 'public' });
+  }
+  for (const label of CURATED_TAGS) {
+    tags.set(label.toLowerCase(), { label, status: 'approved', is_curated: true, created_by: null, created_at: new Date(0).toISOString() });
+  }
+  for (const event of seed.events ?? []) {
+    events.set(event.id, clone(event));
+    nextEventId = Math.max(nextEventId, event.id + 1);
+  }
+  for (const message of seed.messages ?? []) {
+    messages.push(clone(message));
+    nextMessageId = Math.max(nextMessageId, message.id + 1);
+  }
+  for (const note of seed.notes ?? []) {
+    notes.push(clone(note));
+    nextNoteId = Math.max(nextNoteId, note.id + 1);
+  }
+
+  const usernameOf = (id: string) => profiles.get(id)?.username ?? 'Unknown';
+  const withCreator = (row: EventRow): Event => ({ ...clone(row), creator: { username: usernameOf(row.creator_id) } });
+  const withSender = (row: MessageRow): VibeMessage => ({ ...clone(row), sender: { username: usernameOf(row.sender_id) } });
+  const toUser = (id: string): User => ({ id, profile: clone(profiles.get(id)!) });
+
+  const setSession = (event: string, next: AuthSession | null) => {
+    session = next;
+    emit(authListeners, { event, session: next });
+  };
+
+  const requireEvent = (id: number) => {
+    const row = events.get(id);
+    if (!row) throw new DataError(`Event ${id} not found`, { code: 'PGRST116', status: 406 });
+    return row;
+  };
+
+  const requireSeries = (id: number) => {
+    const template = series.get(id);
+    if (!template) throw new DataError(`Series ${id} not found`, { code: 'PGRST116', status: 406 });
+    return template;
+  };
+
+  // The counterpart of can_see_vibe() and the events select policy.
+  const canSee = (row: EventRow) => {
+    const userId = session?.user.id;
+    return row.is_public
+      || row.creator_id === userId
+      || (!!userId && row.participants.includes(userId))
+      || (!!userId && !!guests.get(row.id)?.has(userId));
+  };
+
+  const requireVisibleEvent = (id: number) => {
+    const row = requireEvent(id);
+    if (!canSee(row)) throw new DataError(`Vibe ${id} not found`, { code: 'P0002', status: 400 });
+    return row;
+  };
+
+  const requireHostedEvent = (id: number, table = 'vibe_invites') => {
+    const row = requireEvent(id);
+    if (!isVibeHost(row, requireUserId())) throw new DataError(`permission denied for table ${table}`, { code: '42501', status: 403 });
+    return row;
+  };
+
+  // The checks lock_vibe_for_role_change() makes before any role change.
+  const requireRoleChange = (id: number, userId: string) => {
+    const row = requireEvent(id);
+    if (row.creator_id !== requireUserId()) throw new DataError('Only the host can change roles', { code: '42501', status: 403 });
+    if (!row.participants.includes(userId)) throw new DataError('That person is not in this vibe', { code: '22023', status: 400 });
+    return row;
+  };
+
+  const requireUserId = () => {
+    if (!session) throw new DataError('Not authenticated', { code: '28000', status: 401 });
+    return session.user.id;
+  };
+
+  const withUsage = (tag: Omit<Tag, 'usage_count'>): Tag => ({
+    ...clone(tag),
+    usage_count: [...events.values()].filter(row => isOpenStatus(row.status) && row.topics.includes(tag.label)).length,
+  });
+
+  // The counterpart of normalize_vibe_topics().
+  const normalizeTopics = (topics: Topic[]) => {
+    if (topics.length > MAX_TAGS_PER_VIBE) {
+      throw new DataError(`A vibe can have at most ${MAX_TAGS_PER_VIBE} tags`, { code: TAG_INVALID, status: 400 });
+    }
+    const labels = topics.map(topic => {
+      const tag = tags.get(topic.trim().toLowerCase());
+      if (!tag || tag.status === 'rejected') throw new DataError('That tag is not available', { code: TAG_INVALID, status: 400 });
+      return tag.label;
+    });
+    return [...new Set(labels)];
+  };
+
+  // The counterpart of check_vibe_region().
+  const requireInRegion = ({ creator_id, lat, lng }: Pick<EventRow, 'creator_id' | 'lat' | 'lng'>) => {
+    const region = resolveRegion(profiles.get(creator_id)?.region_id);
+    if (!isInRegionArea(region, [lat, lng])) {
+      throw new DataError(`That spot is outside ${region.name}`, { code: OUTSIDE_REGION, status: 400 });
+    }
+  };
+
+  const insertEvent = (event: NewEvent) => {
+    const row: EventRow = { ...clone(event), id: nextEventId++ };
+    row.status = vibeStatusAt(row);
+    events.set(row.id, row);
+    // Like carry_series_guests(): guests of a series keep access to its next occurrence.
+    if (row.series_id != null) {
+      const carried = new Map<string, number>();
+      events.forEach(other => {
+        if (other.series_id !== row.series_id || other.id === row.id) return;
+        guests.get(other.id)?.forEach((inviteId, userId) => carried.set(userId, inviteId));
+      });
+      if (carried.size > 0) guests.set(row.id, carried);
+    }
+    const created = withCreator(row);
+    emit(eventListeners, { type: 'INSERT', new: created, old: null });
+    return created;
+  };
+
+  // The in-memory counterparts of the recurring vibe triggers in supabase/migrations.
+  const materializeNextOccurrence = (seriesId: number) => {
+    const template = series.get(seriesId);
+    if (!template || template.status !== 'active') return;
+    const occurrences = [...events.values()].filter(row => row.series_id === seriesId);
+    if (occurrences.some(row => isOpenStatus(row.status))) return;
+
+    const after = Math.max(
+      new Date(template.first_start).getTime() - 1000,
+      ...occurrences.filter(row => row.status !== 'cancelled').map(vibeStartTime),
+      Date.now(),
+    );
+    const start = nextOccurrenceStart(template, after);
+    if (start === null) return;
+
+    insertEvent({
+      title: template.title,
+      description: template.description,
+      topics: template.topics,
+      is_public: template.is_public,
+      event_time: new Date(start).toISOString(),
+      duration: template.duration,
+      max_participants: template.max_participants,
+      requires_approval: template.requires_approval,
+      lat: template.lat,
+      lng: template.lng,
+      creator_id: template.creator_id,
+      participants: [template.creator_id],
+      status: 'scheduled',
+      series_id: seriesId,
+    });
+  };
+
+  // Same rule as vibe_series_interval_check.
+  const requireRepeatInterval = ({ recurrence }: Pick<VibeSeries, 'recurrence'>) => {
+    if ((recurrence.interval || 1) > maxRepeatInterval(recurrence.frequency)) {
+      throw new DataError('new row for relation "vibe_series" violates check constraint "vibe_series_interval_check"', { code: '23514', status: 400 });
+    }
+  };
+
+  const updateSeries = (id: number, patch: SeriesPatch) => {
+    const old = requireSeries(id);
+    const template: VibeSeries = { ...old, ...clone(patch) };
+    requireRepeatInterval(template);
+    series.set(id, template);
+    const upcoming = [...events.values()].filter(row => row.series_id === id && isOpenStatus(row.status));
+    const rescheduled = template.status === 'cancelled'
+      || template.first_start !== old.first_start
+      || template.time_zone !== old.time_zone
+      || template.duration !== old.duration
+      || JSON.stringify(template.recurrence) !== JSON.stringify(old.recurrence);
+    if (rescheduled) {
+      upcoming.filter(row => row.status === 'scheduled').forEach(row => writeEvent({ ...row, status: 'cancelled' }, true));
+      materializeNextOccurrence(id);
+    } else {
+      const { title, description, topics, is_public, max_participants, requires_approval } = template;
+      upcoming.forEach(row => writeEvent({ ...row, title, description, topics, is_public, max_participants, requires_approval }, true));
+    }
+    return clone(template);
+  };
+
+  // Like hand_over_series(): the series follows the host of its current occurrence.
+  const handOverSeries = (row: EventRow) => {
+    const template = row.series_id != null ? series.get(row.series_id) : undefined;
+    if (template && template.creator_id !== row.creator_id) series.set(template.id, { ...template, creator_id: row.creator_id });
+  };
+
+  // `bySeries` marks writes made on behalf of a series change, which must not be
+  // remembered as the host skipping that occurrence.
+  const writeEvent = (row: EventRow, bySeries = false) => {
+    const old = events.get(row.id);
+    events.set(row.id, row);
+    const event = withCreator(row);
+    emit(eventListeners, { type: 'UPDATE', new: event, old: { id: row.id } });
+
+    if (row.series_id != null && old && isOpenStatus(old.status) && !isOpenStatus(row.status)) {
+      const template = series.get(row.series_id);
+      if (template && row.status === 'cancelled' && !bySeries) template.skipped_starts.push(row.event_time);
+      materializeNextOccurrence(row.series_id);
+    }
+    return event;
+  };
+
+  const advanceLifecycle = () => {
+    for (const row of events.values()) {
+      if (!TIMED_STATUSES.includes(row.status)) continue;
+      const status = vibeStatusAt(row);
+      if (status !== row.status) writeEvent({ ...row, status });
+    }
+  };
+
+  return {
+    auth: {
+      async getSession() {
+        return clone(session);
+      },
+      async refreshSession() {
+        if (!session) throw new DataError('Auth session missing!', { status: 401 });
+        setSession('TOKEN_REFRESHED', session);
+        return clone(session);
+      },
+      onAuthStateChange(callback) {
+        const listener = ({ event, session }: { event: string; session: AuthSession | null }) => callback(event, session);
+        authListeners.add(listener);
+        return () => { authListeners.delete(listener); };
+      },
+      async signIn(email, password) {
+        const account = accounts.get(email);
+        if (!account || account.password !== password) {
+          throw new DataError('Invalid login credentials', { status: 400 });
+        }
+        setSession('SIGNED_IN', { user: clone(account.user) });
+      },
+      async signUp(email, password, metadata) {
+        if (accounts.has(email)) return { user: clone(accounts.get(email)!.user), alreadyRegistered: true };
+        const user: AuthUser = { id: newId(), email, aud: 'authenticated', user_metadata: clone(metadata) };
+        accounts.set(email, { user, password });
+        // There is no confirmation email offline, so the new account is signed in straight away.
+        setSession('SIGNED_IN', { user: clone(user) });
+        return { user: clone(user), alreadyRegistered: false };
+      },
+      async signOut() {
+        setSession('SIGNED_OUT', null);
+      },
+    },
+
+    events: {
+      async listActiveInBounds({ south, west, north, east }, filter = EMPTY_FILTER) {
+        return [...events.values()]
+          .filter(row => isOpenStatus(row.status) && canSee(row))
+          .filter(row => row.lat >= south && row.lat <= north && row.lng >= west && row.lng <= east)
+          .map(withCreator)
+          // Plain word matching stands in for full-text search.
+          .filter(event => matchesFilter(event, filter));
+      },
+      async listMine() {
+        const userId = session?.user.id;
+        if (!userId) return [];
+        return [...events.values()]
+          .filter(row => isOpenStatus(row.status) && row.participants.includes(userId))
+          .sort((a, b) => vibeStartTime(a) - vibeStartTime(b))
+          .map(withCreator);
+      },
+      async listPastHosted(limit) {
+        const userId = session?.user.id;
+        if (!userId) return [];
+        return [...events.values()]
+          .filter(row => !isOpenStatus(row.status) && row.creator_id === userId)
+          .sort((a, b) => vibeStartTime(b) - vibeStartTime(a))
+          .slice(0, limit)
+          .map(withCreator);
+      },
+      async listActivityInBounds({ south, west, north, east }, query, limit) {
+        const since = new Date(query.since).getTime();
+        return [...events.values()]
+          .filter(row => HELD_STATUSES.includes(row.status) && row.is_public)
+          .filter(row => row.lat >= south && row.lat <= north && row.lng >= west && row.lng <= east)
+          .filter(row => vibeStartTime(row) >= since && isInActivityWindow(query, vibeStartTime(row)))
+          .sort((a, b) => vibeStartTime(b) - vibeStartTime(a))
+          .slice(0, limit)
+          .map(row => ({ lat: row.lat, lng: row.lng, weight: row.participants.length }));
+      },
+      async create(event) {
+        // Same rule as the guard_event_participants trigger.
+        if (event.participants.some(id => id !== event.creator_id)) {
+          throw new DataError('a new vibe can only have its creator as a participant', { code: '42501', status: 403 });
+        }
+        requireInRegion(event);
+        return insertEvent({ ...event, topics: normalizeTopics(event.topics) });
+      },
+      async update(id, patch) {
+        const old = requireHostedEvent(id, 'events');
+        // Same rules as the guard_event_participants and guard_event_roles triggers.
+        if ('participants' in patch) {
+          throw new DataError('participants can only be changed through join_vibe/leave_vibe', { code: '42501', status: 403 });
+        }
+        if ('creator_id' in patch || 'cohost_ids' in patch) {
+          throw new DataError('hosts can only be changed through set_vibe_cohost/transfer_vibe', { code: '42501', status: 403 });
+        }
+        const row: EventRow = { ...old, ...clone(patch) };
+        if (patch.topics) row.topics = normalizeTopics(patch.topics);
+        if (row.lat !== old.lat || row.lng !== old.lng) requireInRegion(row);
+        // Same range as events_duration_check.
+        if (row.duration < MIN_DURATION_MINUTES || row.duration > MAX_DURATION_MINUTES) {
+          throw new DataError('new row for relation "events" violates check constraint "events_duration_check"', { code: '23514', status: 400 });
+        }
+        // Same rule as the sync_vibe_status trigger: re-timing a vibe re-derives its status.
+        if (!patch.status && TIMED_STATUSES.includes(old.status) && (patch.event_time || patch.duration)) {
+          row.status = vibeStatusAt(row);
+        }
+        return writeEvent(row);
+      },
+      async join(id) {
+        const userId = requireUserId();
+        const row = requireVisibleEvent(id);
+        if (!isOpenStatus(row.status)) throw new DataError('This vibe has ended', { code: VIBE_ENDED, status: 400 });
+        if (row.participants.includes(userId)) return withCreator(row);
+        if (row.requires_approval && !isVibeHost(row, userId)) {
+          throw new DataError("This vibe needs the host's approval to join", { code: APPROVAL_REQUIRED, status: 400 });
+        }
+        if (row.max_participants != null && row.participants.length >= row.max_participants) {
+          throw new DataError('This vibe is full', { code: VIBE_FULL, status: 400 });
+        }
+        return writeEvent({ ...row, participants: [...row.participants, userId] });
+      },
+      async leave(id) {
+        const userId = requireUserId();
+        const row = requireEvent(id);
+        const participants = row.participants.filter(p => p !== userId);
+        let cohosts = (row.cohost_ids ?? []).filter(c => c !== userId);
+        let creatorId = row.creator_id;
+        // Same succession as leave_vibe(): longest serving co-host, then earliest joiner.
+        if (creatorId === userId && participants.length > 0) {
+          creatorId = cohosts.find(c => participants.includes(c)) ?? participants[0];
+          cohosts = cohosts.filter(c => c !== creatorId);
+        }
+        const updated = { ...row, participants, cohost_ids: cohosts, creator_id: creatorId };
+        handOverSeries(updated);
+        return writeEvent(updated);
+      },
+      async setCohost(id, userId, isCohost) {
+        const row = requireRoleChange(id, userId);
+        if (userId === row.creator_id) return withCreator(row);
+        const others = (row.cohost_ids ?? []).filter(c => c !== userId);
+        return writeEvent({ ...row, cohost_ids: isCohost ? [...others, userId] : others });
+      },
+      async transferOwnership(id, userId) {
+        const row = requireRoleChange(id, userId);
+        if (userId === row.creator_id) return withCreator(row);
+        const cohosts = (row.cohost_ids ?? []).filter(c => c !== userId && c !== row.creator_id);
+        const updated = { ...row, creator_id: userId, cohost_ids: [...cohosts, row.creator_id] };
+        handOverSeries(updated);
+        return writeEvent(updated);
+      },
+      subscribe(onChange) {
+        // Realtime only delivers rows the subscriber may select.
+        const listener = (change: EventChange) => {
+          if (!change.new || canSee(change.new)) onChange(change);
+        };
+        eventListeners.add(listener);
+        lifecycleTimer ??= setInterval(advanceLifecycle, LIFECYCLE_INTERVAL_MS);
+        return () => {
+          eventListeners.delete(listener);
+          if (eventListeners.size === 0 && lifecycleTimer) {
+            clearInterval(lifecycleTimer);
+            lifecycleTimer = null;
+          }
+        };
+      },
+    },
+
+    series: {
+      async get(id) {
+        return clone(requireSeries(id));
+      },
+      async create(newSeries) {
+        requireInRegion(newSeries);
+        requireRepeatInterval(newSeries);
+        const template: VibeSeries = {
+          ...clone(newSeries),
+          topics: normalizeTopics(newSeries.topics),
+          id: nextSeriesId++,
+          status: 'active',
+          skipped_starts: [],
+        };
+        series.set(template.id, template);
+        materializeNextOccurrence(template.id);
+        const first = [...events.values()].find(row => row.series_id === template.id && isOpenStatus(row.status));
+        if (!first) throw new DataError('This schedule has no upcoming dates', { code: '22023', status: 400 });
+        return withCreator(first);
+      },
+      async update(id, patch) {
+        return updateSeries(id, patch.topics ? { ...patch, topics: normalizeTopics(patch.topics) } : patch);
+      },
+      async cancel(id) {
+        updateSeries(id, { status: 'cancelled' });
+      },
+    },
+
+    invites: {
+      async listForEvent(eventId) {
+        requireHostedEvent(eventId);
+        return [...invites.values()]
+          .filter(invite => invite.event_id === eventId && !invite.revoked_at)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(clone);
+      },
+      async create(eventId) {
+        requireHostedEvent(eventId);
+        const invite: VibeInvite = {
+          id: nextInviteId++,
+          event_id: eventId,
+          code: newInviteCode(),
+          created_at: new Date().toISOString(),
+          revoked_at: null,
+        };
+        invites.set(invite.id, invite);
+        return clone(invite);
+      },
+      async revoke(inviteId) {
+        const invite = invites.get(inviteId);
+        if (!invite) return;
+        const row = requireHostedEvent(invite.event_id);
+        invite.revoked_at = new Date().toISOString();
+        // Guests who came through this invite lose access unless they already joined.
+        const eventGuests = guests.get(row.id);
+        eventGuests?.forEach((viaInvite, userId) => {
+          if (viaInvite === inviteId && !row.participants.includes(userId)) eventGuests.delete(userId);
+        });
+      },
+      async redeem(code) {
+        const userId = requireUserId();
+        const normalized = code.replace(/\s/g, '').toUpperCase();
+        const invite = [...invites.values()].find(i => i.code === normalized && !i.revoked_at);
+        if (!invite) throw new DataError('This invite is invalid or has been revoked', { code: INVITE_INVALID, status: 400 });
+        const row = requireEvent(invite.event_id);
+        if (!isOpenStatus(row.status)) throw new DataError('This vibe has ended', { code: VIBE_ENDED, status: 400 });
+        if (!guests.has(row.id)) guests.set(row.id, new Map());
+        if (!guests.get(row.id)!.has(userId)) guests.get(row.id)!.set(userId, invite.id);
+        return withCreator(row);
+      },
+    },
+
+    joinRequests: {
+      async listMine() {
+        const userId = session?.user.id;
+        return joinRequests.filter(r => r.user_id === userId && r.status === 'pending').map(clone);
+      },
+      async listPending(eventId) {
+        requireHostedEvent(eventId);
+        return joinRequests
+          .filter(r => r.event_id === eventId && r.status === 'pending')
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(clone);
+      },
+      async request(eventId) {
+        const userId = requireUserId();
+        const row = requireVisibleEvent(eventId);
+        if (!isOpenStatus(row.status)) throw new DataError('This vibe has ended', { code: VIBE_ENDED, status: 400 });
+        if (row.participants.includes(userId)) throw new DataError('You are already in this vibe', { code: '22023', status: 400 });
+        let existing = joinRequests.find(r => r.event_id === eventId && r.user_id === userId);
+        if (!existing) {
+          existing = { event_id: eventId, user_id: userId, status: 'pending', created_at: new Date().toISOString() };
+          joinRequests.push(existing);
+        } else if (existing.status !== 'pending') {
+          Object.assign(existing, { status: 'pending', created_at: new Date().toISOString() });
+        } else {
+          return clone(existing);
+        }
+        emit(joinRequestListeners, existing);
+        return clone(existing);
+      },
+      async decide(eventId, userId, accept) {
+        const row = requireHostedEvent(eventId);
+        const pending = joinRequests.find(r => r.event_id === eventId && r.user_id === userId && r.status === 'pending');
+        if (!pending) throw new DataError('There is no pending request from that person', { code: '22023', status: 400 });
+        if (accept) {
+          if (!isOpenStatus(row.status)) throw new DataError('This vibe has ended', { code: VIBE_ENDED, status: 400 });
+          if (row.max_participants != null && row.participants.length >= row.max_participants) {
+            throw new DataError('This vibe is full', { code: VIBE_FULL, status: 400 });
+          }
+          if (!row.participants.includes(userId)) writeEvent({ ...row, participants: [...row.participants, userId] });
+        }
+        pending.status = accept ? 'accepted' : 'declined';
+        emit(joinRequestListeners, pending);
+        return clone(pending);
+      },
+      subscribe(onChange) {
+        // Same visibility as the select policy: your own requests and those you can answer.
+        const listener = (request: JoinRequest) => {
+          const userId = session?.user.id;
+          const row = events.get(request.event_id);
+          if (request.user_id === userId || (row && userId && isVibeHost(row, userId))) onChange(request);
+        };
+        joinRequestListeners.add(listener);
+        return () => { joinRequestListeners.delete(listener); };
+      },
+    },
+
+    // Everyone moderates in memory mode, so the review screen can be tried locally.
+    tags: {
+      async search(prefix, limit) {
+        const userId = session?.user.id;
+        const start = prefix.trim().toLowerCase();
+        return [...tags.values()]
+          .filter(tag => tag.label.toLowerCase().startsWith(start))
+          .filter(tag => tag.status === 'approved' || (tag.status === 'pending' && tag.created_by === userId))
+          .map(withUsage)
+          .sort((a, b) => b.usage_count - a.usage_count)
+          .slice(0, limit);
+      },
+      async listPopular(limit) {
+        return [...tags.values()]
+          .filter(tag => tag.status === 'approved')
+          .map(withUsage)
+          .sort((a, b) => Number(b.is_curated) - Number(a.is_curated) || b.usage_count - a.usage_count)
+          .slice(0, limit);
+      },
+      async create(input) {
+        const userId = requireUserId();
+        const label = normalizeTagLabel(input);
+        if (validateTagLabel(label)) throw new DataError(validateTagLabel(label)!, { code: TAG_INVALID, status: 400 });
+        const existing = [...tags.values()].find(tag => sameTag(tag.label, label));
+        if (existing?.status === 'rejected') throw new DataError('That tag is not available', { code: TAG_INVALID, status: 400 });
+        if (existing) return withUsage(existing);
+        const tag = { label, status: 'pending' as const, is_curated: false, created_by: userId, created_at: new Date().toISOString() };
+        tags.set(label.toLowerCase(), tag);
+        return withUsage(tag);
+      },
+      async canModerate() {
+        return session !== null;
+      },
+      async listPending() {
+        requireUserId();
+        return [...tags.values()]
+          .filter(tag => tag.status === 'pending')
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(withUsage);
+      },
+      async moderate(label, approve) {
+        requireUserId();
+        const tag = tags.get(label.toLowerCase());
+        if (!tag || tag.is_curated) throw new DataError(`Tag ${label} not found`, { code: 'P0002', status: 404 });
+        tag.status = approve ? 'approved' : 'rejected';
+        if (!approve) {
+          series.forEach((template, id) => {
+            if (template.status === 'active' && template.topics.includes(label)) {
+              updateSeries(id, { topics: template.topics.filter(t => t !== label) });
+            }
+          });
+          events.forEach(row => {
+            if (isOpenStatus(row.status) && row.topics.includes(label)) {
+              writeEvent({ ...row, topics: row.topics.filter(t => t !== label) });
+            }
+          });
+        }
+        return withUsage(tag);
+      },
+    },
+
+    templates: {
+      async list() {
+        const userId = requireUserId();
+        return [...templates.values()]
+          .filter(template => template.user_id === userId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(clone);
+      },
+      async create(template) {
+        const row: VibeTemplate = {
+          ...clone(template),
+          id: nextTemplateId++,
+          user_id: requireUserId(),
+          created_at: new Date().toISOString(),
+        };
+        templates.set(row.id, row);
+        return clone(row);
+      },
+      async remove(id) {
+        // Like the RLS policy, someone else's template is silently left alone.
+        if (templates.get(id)?.user_id === requireUserId()) templates.delete(id);
+      },
+    },
+
+    checkIns: {
+      async listForEvent(eventId) {
+        const userId = requireUserId();
+        if (!events.get(eventId)?.participants.includes(userId)) return [];
+        return checkIns.filter(c => c.event_id === eventId).map(clone);
+      },
+      async checkIn(eventId, { lat, lng }) {
+        const userId = requireUserId();
+        const row = events.get(eventId);
+        if (!row?.participants.includes(userId)) throw new DataError('Only participants can check in', { code: '42501', status: 403 });
+        if (!isOpenStatus(row.status)) throw new DataError('This vibe has ended', { code: VIBE_ENDED, status: 400 });
+        if (!isCheckInOpen(row)) throw new DataError('Check-in has not opened yet', { code: CHECK_IN_TOO_EARLY, status: 400 });
+        const distance = distanceMeters([row.lat, row.lng], [lat, lng]);
+        const now = new Date().toISOString();
+        let existing = checkIns.find(c => c.event_id === eventId && c.user_id === userId);
+        if (!existing) {
+          existing = { event_id: eventId, user_id: userId, status: 'on_the_way', distance_m: distance, checked_in_at: null, updated_at: now };
+          checkIns.push(existing);
+        }
+        // Like check_in_vibe(), having been here once is kept.
+        const isHere = existing.status === 'here' || distance <= CHECK_IN_RADIUS_METERS;
+        Object.assign(existing, {
+          status: isHere ? 'here' : 'on_the_way',
+          distance_m: distance,
+          checked_in_at: existing.checked_in_at ?? (isHere ? now : null),
+          updated_at: now,
+        });
+        emit(checkInListeners, existing);
+        return clone(existing);
+      },
+      subscribeToEvent(eventId, onChange) {
+        const listener = (checkIn: VibeCheckIn) => {
+          const userId = session?.user.id;
+          if (checkIn.event_id === eventId && userId && events.get(eventId)?.participants.includes(userId)) onChange(checkIn);
+        };
+        checkInListeners.add(listener);
+        return () => { checkInListeners.delete(listener); };
+      },
+    },
+
+    messages: {
+      async listForEvent(eventId) {
+        const userId = session?.user.id;
+        // Row-level security hides the chat from everyone else rather than failing.
+        if (!userId || !events.get(eventId)?.participants.includes(userId)) return [];
+        return messages
+          .filter(row => row.event_id === eventId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(withSender);
+      },
+      async send(message) {
+        const userId = requireUserId();
+        // Only people in the vibe may post, and only as themselves.
+        if (message.sender_id !== userId || !requireEvent(message.event_id).participants.includes(userId)) {
+          throw new DataError('new row violates row-level security policy for table "messages"', { code: '42501', status: 403 });
+        }
+        const row: MessageRow = { ...message, id: nextMessageId++, created_at: new Date().toISOString() };
+        messages.push(row);
+        emit(messageListeners, row);
+      },
+      subscribeToEvent(eventId, onInsert) {
+        const listener = (row: MessageRow) => {
+          if (row.event_id === eventId) onInsert(withSender(row));
+        };
+        messageListeners.add(listener);
+        return () => { messageListeners.delete(listener); };
+      },
+    },
+
+    profiles: {
+      async getById(id) {
+        return profiles.has(id) ? toUser(id) : null;
+      },
+      async getByUsername(username) {
+        for (const [id, profile] of profiles) {
+          if (profile.username === username) return toUser(id);
+        }
+        return null;
+      },
+      async listSummaries(ids) {
+        return ids.filter(id => profiles.has(id)).map(id => ({ id, username: usernameOf(id) }));
+      },
+      async create(id, profile) {
+        if (profiles.has(id)) throw new DataError('duplicate key value violates unique constraint "profiles_pkey"', { code: '23505', status: 409 });
+        profiles.set(id, clone(profile));
+        return toUser(id);
+      },
+      async update(id, patch) {
+        const profile = profiles.get(id);
+        if (!profile) throw new DataError(`Profile ${id} not found`, { code: 'PGRST116', status: 406 });
+        profiles.set(id, { ...profile, ...clone(patch) });
+        return toUser(id);
+      },
+    },
+
+    notes: {
+      async listForUser(userId) {
+        return notes
+          .filter(note => note.user_id === userId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(clone);
+      },
+      async create(note) {
+        const row: Note = { ...note, id: nextNoteId++, created_at: new Date().toISOString() };
+        notes.push(row);
+        return clone(row);
+      },
+    },
+  };
+};
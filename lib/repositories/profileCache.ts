@@ -0,0 +1,40 @@
+import type { ProfileSummary } from '../../types';
+
+export interface ProfileCache {
+  prime(id: string, username: string): void;
+  username(id: string): Promise<string>;
+}
+
+/**
+ * Usernames never change, so once a profile has been seen in a join or a lookup it
+ * is kept for the session. Concurrent lookups for the same id share one request.
+ */
+export const createProfileCache = (fetchSummaries: (ids: string[]) => Promise<ProfileSummary[]>): ProfileCache => {
+  const usernames = new Map<string, string>();
+  const pending = new Map<string, Promise<string>>();
+
+  return {
+    prime(id, username) {
+      usernames.set(id, username);
+    },
+    username(id) {
+      const known = usernames.get(id);
+      if (known !== undefined) return Promise.resolve(known);
+      let lookup = pending.get(id);
+      if (!lookup) {
+        lookup = fetchSummaries([id])
+          .then(([summary]) => {
+            if (summary) usernames.set(id, summary.username);
+            return summary?.username ?? 'Unknown';
+          })
+          .catch(error => {
+            console.error('Error resolving profile:', error);
+            return 'Unknown';
+          })
+          .finally(() => { pending.delete(id); });
+        pending.set(id, lookup);
+      }
+      return lookup;
+    },
+  };
+};
@@ -0,0 +1,410 @@
+import type { PostgrestError, Session, SupabaseClient } from '@supabase/supabase-js';
+import type { Event, VibeMessage, Note, Profile, User, VibeSeries, VibeInvite, JoinRequest, Tag, VibeTemplate, VibeCheckIn, ActivityPoint } from '../../types';
+import { supabase } from '../supabaseClient';
+import { DataError } from './errors';
+import { createProfileCache } from './profileCache';
+import type { Repositories, EventRow, AuthSession } from './types';
+
+const EVENT_SELECT = '*, creator:profiles(username)';
+const MESSAGE_SELECT = '*, sender:profiles(username)';
+
+const unwrap = <T>({ data, error, status }: { data: T | null; error: PostgrestError | null; status?: number }): T => {
+  if (error) throw DataError.from(error, status);
+  return data as T;
+};
+
+interface ProfileRow extends Profile {
+  id: string;
+}
+
+const toUser = (row: ProfileRow): User => ({
+  id: row.id,
+  profile: {
+    username: row.username,
+    bio: row.bio,
+    privacy: row.privacy,
+    region_id: row.region_id ?? null,
+  },
+});
+
+// ilike treats % and _ as wildcards.
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+const toSession = (session: Session | null): AuthSession | null => (session?.user ? { user: session.user } : null);
+
+export const createSupabaseRepositories = (client: SupabaseClient = supabase): Repositories => {
+  const profileCache = createProfileCache(async ids =>
+    unwrap(await client.from('profiles').select('id, username').in('id', ids)));
+
+  const primeCreators = (events: Event[]) => {
+    events.forEach(event => event.creator && profileCache.prime(event.creator_id, event.creator.username));
+    return events;
+  };
+
+  const withCreator = async (row: EventRow): Promise<Event> =>
+    ({ ...row, creator: { username: await profileCache.username(row.creator_id) } });
+
+  return {
+    auth: {
+      async getSession() {
+        const { data, error } = await client.auth.getSession();
+        if (error) throw DataError.from(error);
+        return toSession(data.session);
+      },
+      async refreshSession() {
+        const { data, error } = await client.auth.refreshSession();
+        if (error) throw DataError.from(error);
+        return toSession(data.session);
+      },
+      onAuthStateChange(callback) {
+        const { data: { subscription } } = client.auth.onAuthStateChange((event, session) => {
+          callback(event, toSession(session));
+        });
+        return () => subscription.unsubscribe();
+      },
+      async signIn(email, password) {
+        const { error } = await client.auth.signInWithPassword({ email, password });
+        if (error) throw DataError.from(error);
+      },
+      async signUp(email, password, metadata) {
+        const { data, error } = await client.auth.signUp({ email, password, options: { data: metadata } });
+        if (error) throw DataError.from(error);
+        return { user: data.user, alreadyRegistered: data.user?.identities?.length === 0 };
+      },
+      async signOut() {
+        const { error } = await client.auth.signOut();
+        if (error) throw DataError.from(error);
+      },
+    },
+
+    events: {
+      async listActiveInBounds({ south, west, north, east }, filter) {
+        return primeCreators(unwrap(await client
+          .rpc('active_events_in_bounds', {
+            min_lat: south,
+            min_lng: west,
+            max_lat: north,
+            max_lng: east,
+            p_query: filter?.query.trim() || null,
+            p_topics: filter?.topics.length ? filter.topics : null,
+          })
+          .select(EVENT_SELECT)) as Event[]);
+      },
+      async listMine() {
+        const { data: { user } } = await client.auth.getUser();
+        if (!user) return [];
+        return primeCreators(unwrap(await client
+          .from('events')
+          .select(EVENT_SELECT)
+          .contains('participants', [user.id])
+          .in('status', ['scheduled', 'live'])
+          .order('event_time')) as Event[]);
+      },
+      async listPastHosted(limit) {
+        const { data: { user } } = await client.auth.getUser();
+        if (!user) return [];
+        return primeCreators(unwrap(await client
+          .from('events')
+          .select(EVENT_SELECT)
+          .eq('creator_id', user.id)
+          .in('status', ['ended', 'closed', 'cancelled'])
+          .order('event_time', { ascending: false })
+          .limit(limit)) as Event[]);
+      },
+      async listActivityInBounds({ south, west, north, east }, query, limit) {
+        return unwrap(await client.rpc('vibe_activity_in_bounds', {
+          min_lat: south,
+          min_lng: west,
+          max_lat: north,
+          max_lng: east,
+          p_since: query.since,
+          p_weekdays: query.weekdays,
+          p_from_hour: query.fromHour,
+          p_to_hour: query.toHour,
+          p_time_zone: query.timeZone,
+          p_limit: limit,
+        })) as ActivityPoint[];
+      },
+      async create(event) {
+        return unwrap(await client.from('events').insert(event).select(EVENT_SELECT).single()) as Event;
+      },
+      async update(id, patch) {
+        return unwrap(await client.from('events').update(patch).eq('id', id).select(EVENT_SELECT).single()) as Event;
+      },
+      async join(id) {
+        return unwrap(await client.rpc('join_vibe', { p_event_id: id }).select(EVENT_SELECT).single()) as Event;
+      },
+      async leave(id) {
+        return unwrap(await client.rpc('leave_vibe', { p_event_id: id }).select(EVENT_SELECT).single()) as Event;
+      },
+      async setCohost(id, userId, isCohost) {
+        return unwrap(await client
+          .rpc('set_vibe_cohost', { p_event_id: id, p_user_id: userId, p_is_cohost: isCohost })
+          .select(EVENT_SELECT)
+          .single()) as Event;
+      },
+      async transferOwnership(id, userId) {
+        return unwrap(await client
+          .rpc('transfer_vibe', { p_event_id: id, p_user_id: userId })
+          .select(EVENT_SELECT)
+          .single()) as Event;
+      },
+      subscribe(onChange, onReconnect) {
+        // Creator lookups are async, so changes are chained to keep them in commit order.
+        let delivery = Promise.resolve();
+        let hasSubscribed = false;
+        const channel = client.channel('public:events')
+          .on('postgres_changes', { event: '*', schema: 'public', table: 'events' }, payload => {
+            delivery = delivery.then(async () => {
+              onChange({
+                type: payload.eventType,
+                new: payload.eventType === 'DELETE' ? null : await withCreator(payload.new as EventRow),
+                old: payload.old as Partial<EventRow>,
+              });
+            }).catch(error => console.error('Error applying event change:', error));
+          })
+          .subscribe(status => {
+            if (status !== 'SUBSCRIBED') return;
+            if (hasSubscribed) onReconnect?.();
+            hasSubscribed = true;
+          });
+        return () => { client.removeChannel(channel); };
+      },
+    },
+
+    series: {
+      async get(id) {
+        return unwrap(await client.from('vibe_series').select('*').eq('id', id).single()) as VibeSeries;
+      },
+      async create(series) {
+        const { id } = unwrap(await client.from('vibe_series').insert(series).select('id').single());
+        const [first] = unwrap(await client
+          .from('events')
+          .select(EVENT_SELECT)
+          .eq('series_id', id)
+          .in('status', ['scheduled', 'live'])
+          .order('event_time')
+          .limit(1)) as Event[];
+        if (!first) throw new DataError('This schedule has no upcoming dates', { code: '22023', status: 400 });
+        return first;
+      },
+      async update(id, patch) {
+        return unwrap(await client.from('vibe_series').update(patch).eq('id', id).select().single()) as VibeSeries;
+      },
+      async cancel(id) {
+        unwrap(await client.from('vibe_series').update({ status: 'cancelled' }).eq('id', id));
+      },
+    },
+
+    invites: {
+      async listForEvent(eventId) {
+        return unwrap(await client
+          .from('vibe_invites')
+          .select('*')
+          .eq('event_id', eventId)
+          .is('revoked_at', null)
+          .order('created_at', { ascending: false })) as VibeInvite[];
+      },
+      async create(eventId) {
+        return unwrap(await client.from('vibe_invites').insert({ event_id: eventId }).select().single()) as VibeInvite;
+      },
+      async revoke(inviteId) {
+        unwrap(await client.from('vibe_invites').update({ revoked_at: new Date().toISOString() }).eq('id', inviteId));
+      },
+      async redeem(code) {
+        return primeCreators([unwrap(await client
+          .rpc('redeem_vibe_invite', { p_code: code })
+          .select(EVENT_SELECT)
+          .single()) as Event])[0];
+      },
+    },
+
+    joinRequests: {
+      async listMine() {
+        const { data: { user } } = await client.auth.getUser();
+        if (!user) return [];
+        return unwrap(await client
+          .from('vibe_join_requests')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('status', 'pending')) as JoinRequest[];
+      },
+      async listPending(eventId) {
+        return unwrap(await client
+          .from('vibe_join_requests')
+          .select('*')
+          .eq('event_id', eventId)
+          .eq('status', 'pending')
+          .order('created_at')) as JoinRequest[];
+      },
+      async request(eventId) {
+        return unwrap(await client.rpc('request_to_join_vibe', { p_event_id: eventId }).single()) as JoinRequest;
+      },
+      async decide(eventId, userId, accept) {
+        return unwrap(await client
+          .rpc('decide_join_request', { p_event_id: eventId, p_user_id: userId, p_accept: accept })
+          .single()) as JoinRequest;
+      },
+      subscribe(onChange) {
+        const channel = client.channel('public:vibe_join_requests')
+          .on('postgres_changes', { event: '*', schema: 'public', table: 'vibe_join_requests' }, payload => {
+            if (payload.eventType !== 'DELETE') onChange(payload.new as JoinRequest);
+          })
+          .subscribe();
+        return () => { client.removeChannel(channel); };
+      },
+    },
+
+    tags: {
+      async search(prefix, limit) {
+        // Spelled out because moderators may read every pending tag, not just their own.
+        // The stored session is enough here; it only narrows what RLS already allows.
+        const { data: { session } } = await client.auth.getSession();
+        const user = session?.user;
+        return unwrap(await client
+          .from('vibe_tags')
+          .select('*')
+          .ilike('label', `${escapeLike(prefix.trim())}%`)
+          .or(user ? `status.eq.approved,and(status.eq.pending,created_by.eq.${user.id})` : 'status.eq.approved')
+          .order('usage_count', { ascending: false })
+          .limit(limit)) as Tag[];
+      },
+      async listPopular(limit) {
+        return unwrap(await client
+          .from('vibe_tags')
+          .select('*')
+          .eq('status', 'approved')
+          .order('is_curated', { ascending: false })
+          .order('usage_count', { ascending: false })
+          .limit(limit)) as Tag[];
+      },
+      async create(label) {
+        return unwrap(await client.rpc('create_vibe_tag', { p_label: label }).single()) as Tag;
+      },
+      async canModerate() {
+        return unwrap(await client.rpc('is_tag_moderator')) as boolean;
+      },
+      async listPending() {
+        return unwrap(await client
+          .from('vibe_tags')
+          .select('*')
+          .eq('status', 'pending')
+          .order('created_at')) as Tag[];
+      },
+      async moderate(label, approve) {
+        return unwrap(await client.rpc('moderate_vibe_tag', { p_label: label, p_approve: approve }).single()) as Tag;
+      },
+    },
+
+    templates: {
+      async list() {
+        return unwrap(await client
+          .from('vibe_templates')
+          .select('*')
+          .order('created_at', { ascending: false })) as VibeTemplate[];
+      },
+      async create(template) {
+        return unwrap(await client.from('vibe_templates').insert(template).select().single()) as VibeTemplate;
+      },
+      async remove(id) {
+        unwrap(await client.from('vibe_templates').delete().eq('id', id));
+      },
+    },
+
+    checkIns: {
+      async listForEvent(eventId) {
+        return unwrap(await client.from('vibe_checkins').select('*').eq('event_id', eventId)) as VibeCheckIn[];
+      },
+      async checkIn(eventId, { lat, lng }) {
+        return unwrap(await client
+          .rpc('check_in_vibe', { p_event_id: eventId, p_lat: lat, p_lng: lng })
+          .single()) as VibeCheckIn;
+      },
+      subscribeToEvent(eventId, onChange) {
+        const channel = client.channel(`public:vibe_checkins:event_id=eq.${eventId}`)
+          .on('postgres_changes', {
+            event: '*',
+            schema: 'public',
+            table: 'vibe_checkins',
+            filter: `event_id=eq.${eventId}`,
+          }, payload => {
+            if (payload.eventType !== 'DELETE') onChange(payload.new as VibeCheckIn);
+          })
+          .subscribe();
+        return () => { client.removeChannel(channel); };
+      },
+    },
+
+    messages: {
+      async listForEvent(eventId) {
+        const messages: VibeMessage[] = unwrap(await client
+          .from('messages')
+          .select(MESSAGE_SELECT)
+          .eq('event_id', eventId)
+          .order('created_at'));
+        messages.forEach(message => message.sender && profileCache.prime(message.sender_id, message.sender.username));
+        return messages;
+      },
+      async send(message) {
+        unwrap(await client.from('messages').insert(message));
+      },
+      subscribeToEvent(eventId, onInsert, onReconnect) {
+        // Sender lookups are async, so messages are chained to keep them in order.
+        let delivery = Promise.resolve();
+        let hasSubscribed = false;
+        const channel = client.channel(`public:messages:event_id=eq.${eventId}`)
+          .on('postgres_changes', {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'messages',
+            filter: `event_id=eq.${eventId}`,
+          }, payload => {
+            delivery = delivery.then(async () => {
+              const username = await profileCache.username(payload.new.sender_id);
+              onInsert({ ...payload.new, sender: { username } } as VibeMessage);
+            }).catch(error => console.error('Error delivering message:', error));
+          })
+          .subscribe(status => {
+            if (status !== 'SUBSCRIBED') return;
+            if (hasSubscribed) onReconnect?.();
+            hasSubscribed = true;
+          });
+        return () => { client.removeChannel(channel); };
+      },
+    },
+
+    profiles: {
+      async getById(id) {
+        const row = unwrap(await client.from('profiles').select('*').eq('id', id).maybeSingle());
+        return row ? toUser(row) : null;
+      },
+      async getByUsername(username) {
+        const row = unwrap(await client.from('profiles').select('*').eq('username', username).maybeSingle());
+        return row ? toUser(row) : null;
+      },
+      async listSummaries(ids) {
+        if (ids.length === 0) return [];
+        return unwrap(await client.from('profiles').select('id, username').in('id', ids));
+      },
+      async create(id, profile) {
+        return toUser(unwrap(await client.from('profiles').insert({ id, ...profile }).select().single()));
+      },
+      async update(id, patch) {
+        return toUser(unwrap(await client.from('profiles').update(patch).eq('id', id).select().single()));
+      },
+    },
+
+    notes: {
+      async listForUser(userId) {
+        return unwrap(await client
+          .from('notes')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })) as Note[];
+      },
+      async create(note) {
+        return unwrap(await client.from('notes').insert(note).select().single()) as Note;
+      },
+    },
+  };
+};
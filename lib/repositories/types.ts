@@ -0,0 +1,206 @@
+import type { Event, VibeMessage, Note, Profile, ProfileSummary, User, MapBounds, VibeFilter, ActivityPoint, VibeSeries, VibeInvite, JoinRequest, Tag, VibeTemplate, VibeCheckIn } from '../../types';
+
+export type Unsubscribe = () => void;
+
+// An event row as stored, before the creator join is resolved.
+export type EventRow = Omit<Event, 'creator'>;
+export type NewEvent = Omit<Event, 'id' | 'creator'>;
+// Membership and roles are changed only through join/leave and the role methods,
+// never by patching `participants`, `creator_id` or `cohost_ids`.
+export type EventPatch = Partial<Omit<Event, 'id' | 'creator' | 'creator_id' | 'participants' | 'cohost_ids'>>;
+
+export type NewSeries = Omit<VibeSeries, 'id' | 'status' | 'skipped_starts'>;
+export type SeriesPatch = Partial<Omit<VibeSeries, 'id' | 'creator_id' | 'lat' | 'lng' | 'skipped_starts'>>;
+
+export type NewTemplate = Omit<VibeTemplate, 'id' | 'user_id' | 'created_at'>;
+
+// Past vibes to draw on the heatmap: those started since `since`, optionally only on
+// some weekdays and between some hours, both read in `timeZone`.
+export interface ActivityQuery {
+  since: string;
+  weekdays: number[] | null; // 0 = Sunday
+  fromHour: number | null;
+  toHour: number | null;
+  timeZone: string;
+}
+
+export interface NewMessage {
+  text: string;
+  sender_id: string;
+  event_id: number;
+}
+
+export interface NewNote {
+  content: string;
+  user_id: string;
+}
+
+// A realtime change with the creator join already resolved. `old` usually carries
+// only the primary key, since the table does not use REPLICA IDENTITY FULL.
+export interface EventChange {
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Event | null;
+  old: Partial<EventRow> | null;
+}
+
+export interface EventRepository {
+  // Scheduled and live events inside the bounds that the current user may see.
+  // Invite-only vibes are filtered out server-side, here and in subscribe(). The
+  // optional filter is applied server-side too, with full-text search for the query.
+  listActiveInBounds(bounds: MapBounds, filter?: VibeFilter): Promise<Event[]>;
+  // Scheduled and live events the current user is a participant in, wherever they are.
+  listMine(): Promise<Event[]>;
+  // Ended, closed and cancelled vibes the current user hosts, most recent first.
+  listPastHosted(limit: number): Promise<Event[]>;
+  // Public vibes inside the bounds that went ahead (live, ended or closed) in the query's
+  // window, as points only, the most recent first.
+  listActivityInBounds(bounds: MapBounds, query: ActivityQuery, limit: number): Promise<ActivityPoint[]>;
+  create(event: NewEvent): Promise<Event>;
+  update(id: number, patch: EventPatch): Promise<Event>;
+  // Atomic server-side membership changes; join rejects with VIBE_FULL or VIBE_ENDED,
+  // or APPROVAL_REQUIRED when the vibe needs a join request instead.
+  join(id: number): Promise<Event>;
+  // When the host leaves, the server hands the vibe to a co-host or the earliest joiner.
+  leave(id: number): Promise<Event>;
+  // Host only; the user must be a participant.
+  setCohost(id: number, userId: string, isCohost: boolean): Promise<Event>;
+  // Host only. The previous host stays on as a co-host.
+  transferOwnership(id: number, userId: string): Promise<Event>;
+  // Changes are delivered in commit order. onReconnect fires when the channel comes
+  // back after a drop, since anything that happened in between was missed.
+  subscribe(onChange: (change: EventChange) => void, onReconnect?: () => void): Unsubscribe;
+}
+
+// Skipping a single occurrence is just cancelling that event; the server then lines
+// up the next one.
+export interface SeriesRepository {
+  get(id: number): Promise<VibeSeries>;
+  // Resolves to the first occurrence, which the server creates along with the series.
+  create(series: NewSeries): Promise<Event>;
+  update(id: number, patch: SeriesPatch): Promise<VibeSeries>;
+  cancel(id: number): Promise<void>;
+}
+
+// Invites to invite-only vibes. Listing, creating and revoking are for the vibe's
+// creator; anyone signed in can redeem a code they were given.
+export interface InviteRepository {
+  // Invites that have not been revoked, newest first.
+  listForEvent(eventId: number): Promise<VibeInvite[]>;
+  create(eventId: number): Promise<VibeInvite>;
+  revoke(inviteId: number): Promise<void>;
+  // Grants access to the invite's vibe; rejects with INVITE_INVALID or VIBE_ENDED.
+  redeem(code: string): Promise<Event>;
+}
+
+export interface JoinRequestRepository {
+  // The current user's requests that are still pending.
+  listMine(): Promise<JoinRequest[]>;
+  // Pending requests for a vibe the current user hosts, oldest first.
+  listPending(eventId: number): Promise<JoinRequest[]>;
+  // Asking again after a decline puts the request back to pending.
+  request(eventId: number): Promise<JoinRequest>;
+  // Host or co-host only. Accepting adds the requester to the vibe; rejects with VIBE_FULL.
+  decide(eventId: number, userId: string, accept: boolean): Promise<JoinRequest>;
+  // Every change the current user may see: their own requests and those for vibes they host.
+  subscribe(onChange: (request: JoinRequest) => void): Unsubscribe;
+}
+
+// Topics are checked against these on every write; unknown or rejected tags are
+// refused with TAG_INVALID.
+export interface TagRepository {
+  // Tags starting with the prefix (ignoring case) that the user may pick, most used first:
+  // approved ones and their own pending ones.
+  search(prefix: string, limit: number): Promise<Tag[]>;
+  // Approved tags for quick picks, the curated set first, then by use.
+  listPopular(limit: number): Promise<Tag[]>;
+  // Adds a pending tag, or returns the existing one with that label in any case.
+  create(label: string): Promise<Tag>;
+  canModerate(): Promise<boolean>;
+  // Moderators only, oldest first.
+  listPending(): Promise<Tag[]>;
+  // Moderators only. Rejecting also strips the tag from open vibes and series.
+  moderate(label: string, approve: boolean): Promise<Tag>;
+}
+
+// The current user's own templates; nobody else can see them.
+export interface TemplateRepository {
+  // Newest first.
+  list(): Promise<VibeTemplate[]>;
+  create(template: NewTemplate): Promise<VibeTemplate>;
+  remove(id: number): Promise<void>;
+}
+
+// Opt-in check-ins. The position is compared server-side when checking in and only
+// the distance is kept.
+export interface CheckInRepository {
+  // Participants only.
+  listForEvent(eventId: number): Promise<VibeCheckIn[]>;
+  // Participants only. "here" within CHECK_IN_RADIUS_METERS of the vibe, otherwise "on
+  // the way"; rejects with CHECK_IN_TOO_EARLY or VIBE_ENDED.
+  checkIn(eventId: number, position: { lat: number; lng: number }): Promise<VibeCheckIn>;
+  subscribeToEvent(eventId: number, onChange: (checkIn: VibeCheckIn) => void): Unsubscribe;
+}
+
+export interface MessageRepository {
+  listForEvent(eventId: number): Promise<VibeMessage[]>;
+  send(message: NewMessage): Promise<void>;
+  // Messages arrive in order, with the sender join resolved. onReconnect fires when the
+  // channel comes back after a drop, like EventRepository.subscribe.
+  subscribeToEvent(eventId: number, onInsert: (message: VibeMessage) => void, onReconnect?: () => void): Unsubscribe;
+}
+
+export interface ProfileRepository {
+  getById(id: string): Promise<User | null>;
+  getByUsername(username: string): Promise<User | null>;
+  listSummaries(ids: string[]): Promise<ProfileSummary[]>;
+  create(id: string, profile: Profile): Promise<User>;
+  update(id: string, patch: Partial<Omit<Profile, 'username'>>): Promise<User>;
+}
+
+export interface NoteRepository {
+  listForUser(userId: string): Promise<Note[]>;
+  create(note: NewNote): Promise<Note>;
+}
+
+// Given at sign-up; used to create the profile if it is missing.
+export type AuthUserMetadata = Partial<Pick<Profile, 'username' | 'bio' | 'privacy'>>;
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  aud: string;
+  user_metadata: AuthUserMetadata;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+}
+
+export interface SignUpResult {
+  user: AuthUser | null;
+  // Supabase hides duplicate sign-ups behind a user with no identities.
+  alreadyRegistered: boolean;
+}
+
+export interface AuthRepository {
+  getSession(): Promise<AuthSession | null>;
+  refreshSession(): Promise<AuthSession | null>;
+  onAuthStateChange(callback: (event: string, session: AuthSession | null) => void): Unsubscribe;
+  signIn(email: string, password: string): Promise<void>;
+  signUp(email: string, password: string, metadata: AuthUserMetadata): Promise<SignUpResult>;
+  signOut(): Promise<void>;
+}
+
+export interface Repositories {
+  auth: AuthRepository;
+  events: EventRepository;
+  series: SeriesRepository;
+  invites: InviteRepository;
+  joinRequests: JoinRequestRepository;
+  tags: TagRepository;
+  templates: TemplateRepository;
+  checkIns: CheckInRepository;
+  messages: MessageRepository;
+  profiles: ProfileRepository;
+  notes: NoteRepository;
+}
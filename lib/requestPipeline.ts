@@ -0,0 +1,153 @@
+import { repositories, VIBE_FULL, VIBE_ENDED, INVITE_INVALID, APPROVAL_REQUIRED, TAG_INVALID, CHECK_IN_TOO_EARLY, OUTSIDE_REGION, type AuthRepository, type Unsubscribe } from './repositories';
+
+export type RequestErrorKind = 'auth' | 'network' | 'permission' | 'validation' | 'unknown';
+
+export class RequestError extends Error {
+  kind: RequestErrorKind;
+  code?: string;
+
+  constructor(kind: RequestErrorKind, cause: unknown) {
+    const details = cause as { message?: string; code?: string } | null | undefined;
+    super(details?.message ?? String(cause), { cause });
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.code = details?.code;
+  }
+}
+
+const AUTH_CODES = ['PGRST301', 'PGRST302', 'PGRST303', '28000'];
+const TRANSIENT_STATUSES = [0, 408, 425, 429, 502, 503, 504];
+
+/**
+ * Maps a PostgREST, auth or fetch failure onto the handful of cases the UI
+ * actually reacts to. Codes are checked before the message because PostgREST
+ * messages are not stable across versions.
+ */
+export const classifyError = (error: unknown): RequestErrorKind => {
+  if (error instanceof RequestError) return error.kind;
+  const details = error as { status?: number; code?: string; message?: string } | null | undefined;
+  const status = details?.status;
+  const code = details?.code ?? '';
+  const message = details?.message ?? '';
+
+  if (status === 401 || AUTH_CODES.includes(code) || /JWT|session/i.test(message)) return 'auth';
+  if (status === 403 || code === '42501') return 'permission';
+  if (
+    (status !== undefined && TRANSIENT_STATUSES.includes(status)) ||
+    // fetch() rejects with a TypeError carrying one of these; other TypeErrors are bugs.
+    /failed to fetch|network|load failed|timed? ?out/i.test(message)
+  ) return 'network';
+  if (
+    (status !== undefined && status >= 400 && status < 500) ||
+    /^(22|23|PGRST1)/.test(code)
+  ) return 'validation';
+  return 'unknown';
+};
+
+export interface RequestPipelineOptions {
+  auth: AuthRepository;
+  maxNetworkRetries?: number;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RequestOptions {
+  // Network failures are retried, but a 502 or a timeout can come after the server has
+  // already committed. Writes that would be duplicated by running twice pass false.
+  retry?: boolean;
+}
+
+export interface RequestPipeline {
+  request<T>(operation: () => Promise<T>, options?: RequestOptions): Promise<T>;
+  onSessionExpired(listener: () => void): Unsubscribe;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export const createRequestPipeline = ({
+  auth,
+  maxNetworkRetries = 3,
+  baseDelayMs = 500,
+  sleep = defaultSleep,
+}: RequestPipelineOptions): RequestPipeline => {
+  const expiredListeners = new Set<() => void>();
+  // Concurrent requests that all hit an expired token share a single refresh.
+  let refreshing: Promise<boolean> | null = null;
+
+  const refreshOnce = () => {
+    if (!refreshing) {
+      refreshing = auth.refreshSession()
+        .then(session => !!session)
+        .catch(() => false)
+        .finally(() => { refreshing = null; });
+    }
+    return refreshing;
+  };
+
+  const request = async <T>(operation: () => Promise<T>, { retry = true }: RequestOptions = {}): Promise<T> => {
+    let refreshed = false;
+    let networkAttempts = 0;
+
+    for (;;) {
+      try {
+        return await operation();
+      } catch (error) {
+        const kind = classifyError(error);
+
+        if (kind === 'auth' && !refreshed) {
+          refreshed = true;
+          console.warn('🔑 Request rejected as unauthenticated, refreshing session and retrying...');
+          if (await refreshOnce()) continue;
+        }
+
+        if (kind === 'network' && retry && networkAttempts < maxNetworkRetries) {
+          const delay = baseDelayMs * 2 ** networkAttempts * (1 + Math.random() * 0.25);
+          networkAttempts++;
+          console.warn(`🌐 Network error, retrying in ${Math.round(delay)}ms (attempt ${networkAttempts}/${maxNetworkRetries})`);
+          await sleep(delay);
+          continue;
+        }
+
+        if (kind === 'auth') expiredListeners.forEach(listener => listener());
+        throw error instanceof RequestError ? error : new RequestError(kind, error);
+      }
+    }
+  };
+
+  return {
+    request,
+    onSessionExpired(listener) {
+      expiredListeners.add(listener);
+      return () => { expiredListeners.delete(listener); };
+    },
+  };
+};
+
+const pipeline = createRequestPipeline({ auth: repositories.auth });
+
+export const request = pipeline.request;
+export const onSessionExpired = pipeline.onSessionExpired;
+
+const ERROR_MESSAGES: Record<RequestErrorKind, string | null> = {
+  auth: 'Session expired. Please log in again.',
+  network: 'Network problem. Please check your connection and try again.',
+  permission: "You don't have permission to do that.",
+  validation: null,
+  unknown: null,
+};
+
+const CODE_MESSAGES: Record<string, string> = {
+  [VIBE_FULL]: 'This vibe is full.',
+  [VIBE_ENDED]: 'This vibe has already ended.',
+  [INVITE_INVALID]: 'That invite is invalid or has been revoked.',
+  [APPROVAL_REQUIRED]: "This vibe needs the host's approval. Send a request to join instead.",
+  [TAG_INVALID]: "One of those tags isn't available. Tags are up to 24 letters, numbers, spaces or dashes.",
+  [CHECK_IN_TOO_EARLY]: 'Check-in opens 30 minutes before the vibe starts.',
+  [OUTSIDE_REGION]: "That spot is outside your region. You can change your region in settings.",
+};
+
+// The user-facing text for a failed request, falling back to the caller's message.
+export const describeRequestError = (error: unknown, fallback: string) => {
+  if (!(error instanceof RequestError)) return fallback;
+  return (error.code && CODE_MESSAGES[error.code]) || ERROR_MESSAGES[error.kind] || fallback;
+};
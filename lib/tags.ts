@@ -0,0 +1,19 @@
+import type { Topic } from '../types';
+
+// Mirrors the checks on vibe_tags and normalize_vibe_topics() in supabase/migrations.
+export const MAX_TAG_LENGTH = 24;
+export const MAX_TAGS_PER_VIBE = 5;
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} -]*$/u;
+
+// Trims and collapses inner whitespace, as create_vibe_tag() does.
+export const normalizeTagLabel = (input: string) => input.trim().replace(/\s+/g, ' ');
+
+export const validateTagLabel = (label: string): string | null => {
+  if (!label) return 'Please enter a tag.';
+  if (label.length > MAX_TAG_LENGTH) return `Tags can be at most ${MAX_TAG_LENGTH} characters.`;
+  if (!TAG_PATTERN.test(label)) return 'Tags can only use letters, numbers, spaces and dashes.';
+  return null;
+};
+
+// Tags are unique regardless of case.
+export const sameTag = (a: Topic, b: Topic) => a.toLowerCase() === b.toLowerCase();
@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ActivityPoint, MapBounds } from '../types';
+import { repositories } from './repositories';
+import { request } from './requestPipeline';
+import { activityQuery, type ActivityWindow } from './activity';
+
+const TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const ACTIVITY_POINT_LIMIT = 2000;
+
+/**
+ * The heatmap points for the visible area, reloaded as the map moves or the window
+ * changes. Null while the layer is off; a response that arrives after the next
+ * move or change is dropped.
+ */
+export const useActivityHeatmap = (
+  bounds: MapBounds | null,
+  activityWindow: ActivityWindow | null,
+  onError: (error: unknown) => void,
+) => {
+  const [points, setPoints] = useState<ActivityPoint[] | null>(null);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (!activityWindow) {
+      setPoints(null);
+      return;
+    }
+    if (!bounds) return;
+
+    let isCurrent = true;
+    const query = activityQuery(activityWindow, Date.now(), TIME_ZONE);
+    request(() => repositories.events.listActivityInBounds(bounds, query, ACTIVITY_POINT_LIMIT))
+      .then(loaded => { if (isCurrent) setPoints(loaded); })
+      .catch(error => {
+        if (!isCurrent) return;
+        console.error("Error fetching vibe activity", error);
+        onErrorRef.current(error);
+      });
+    return () => { isCurrent = false; };
+  }, [bounds, activityWindow]);
+
+  return points;
+};
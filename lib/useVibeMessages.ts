@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import type { VibeMessage } from '../types';
+import { repositories, type Unsubscribe } from './repositories';
+import { request } from './requestPipeline';
+
+const byCreatedAt = (a: VibeMessage, b: VibeMessage) => a.created_at.localeCompare(b.created_at);
+
+/**
+ * Keeps one message subscription per vibe the user belongs to, with the history
+ * and an unread count for each. Messages count as read while `viewingId` is the
+ * vibe on screen.
+ */
+export const useVibeMessages = (
+  vibeIds: number[],
+  viewingId: number | null,
+  userId: string,
+  onError: (error: unknown) => void,
+) => {
+  const [messages, setMessages] = useState<Record<number, VibeMessage[]>>({});
+  const [unread, setUnread] = useState<Record<number, number>>({});
+  const subscriptionsRef = useRef(new Map<number, Unsubscribe>());
+  const viewingIdRef = useRef(viewingId);
+  viewingIdRef.current = viewingId;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  // Subscriptions follow the set of ids, not the array identity.
+  const idsKey = [...new Set(vibeIds)].sort((a, b) => a - b).join(',');
+
+  useEffect(() => {
+    const ids = new Set(idsKey ? idsKey.split(',').map(Number) : []);
+    const subscriptions = subscriptionsRef.current;
+    const without = <T,>(record: Record<number, T>, id: number) => {
+      const { [id]: _, ...rest } = record;
+      return rest;
+    };
+
+    subscriptions.forEach((unsubscribe, id) => {
+      if (ids.has(id)) return;
+      unsubscribe();
+      subscriptions.delete(id);
+      setMessages(prev => without(prev, id));
+      setUnread(prev => without(prev, id));
+    });
+
+    // Merged with what is already there, so it also fills in messages missed while
+    // the connection was down.
+    const loadHistory = (id: number) => {
+      request(() => repositories.messages.listForEvent(id))
+        .then(history => setMessages(prev => {
+          if (!subscriptions.has(id)) return prev;
+          const live = (prev[id] ?? []).filter(m => !history.some(h => h.id === m.id));
+          return { ...prev, [id]: [...history, ...live].sort(byCreatedAt) };
+        }))
+        .catch(error => {
+          console.error("Error fetching messages", error);
+          onErrorRef.current(error);
+        });
+    };
+
+    ids.forEach(id => {
+      if (subscriptions.has(id)) return;
+      // Subscribe before loading the history so nothing sent in between is lost.
+      subscriptions.set(id, repositories.messages.subscribeToEvent(id, message => {
+        setMessages(prev => ({ ...prev, [id]: [...(prev[id] ?? []).filter(m => m.id !== message.id), message] }));
+        if (message.sender_id !== userId && viewingIdRef.current !== id) {
+          setUnread(prev => ({ ...prev, [id]: (prev[id] ?? 0) + 1 }));
+        }
+      }, () => {
+        console.log(`🔄 Chat for vibe ${id} reconnected, resyncing...`);
+        loadHistory(id);
+      }));
+      loadHistory(id);
+    });
+  }, [idsKey, userId]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (viewingId !== null) setUnread(prev => (prev[viewingId] ? { ...prev, [viewingId]: 0 } : prev));
+  }, [viewingId]);
+
+  return { messages, unread };
+};
@@ -0,0 +1,53 @@
+import type { Event, VibeFilter } from '../types';
+import { validateTagLabel } from './tags';
+
+// Filtered maps are shareable as ?q=board+games&topics=Food,Social.
+const QUERY_PARAM = 'q';
+const TOPICS_PARAM = 'topics';
+
+export const EMPTY_FILTER: VibeFilter = { query: '', topics: [] };
+
+export const isFilterActive = (filter: VibeFilter) => filter.query.trim() !== '' || filter.topics.length > 0;
+
+export const readFilterFromUrl = (): VibeFilter => {
+  const params = new URL(window.location.href).searchParams;
+  const topics = (params.get(TOPICS_PARAM) ?? '').split(',').filter(topic => !validateTagLabel(topic));
+  return { query: params.get(QUERY_PARAM) ?? '', topics };
+};
+
+export const writeFilterToUrl = ({ query, topics }: VibeFilter) => {
+  const url = new URL(window.location.href);
+  if (query.trim()) url.searchParams.set(QUERY_PARAM, query.trim());
+  else url.searchParams.delete(QUERY_PARAM);
+  if (topics.length > 0) url.searchParams.set(TOPICS_PARAM, topics.join(','));
+  else url.searchParams.delete(TOPICS_PARAM);
+  if (url.href !== window.location.href) window.history.replaceState(window.history.state, '', url.toString());
+};
+
+/**
+ * Whether a vibe belongs on a filtered map. The server does the real search with
+ * stemming and web search syntax; this only needs every plain word of the query to
+ * appear in the title or description. The two can disagree at the edges until the
+ * next load from the server.
+ */
+export const matchesFilter = (event: Event, { query, topics }: VibeFilter) => {
+  if (topics.length > 0 && !event.topics.some(topic => topics.includes(topic))) return false;
+  const words = query.toLowerCase().split(/\s+/).filter(word => /^[\p{L}\p{N}]+$/u.test(word));
+  if (words.length === 0) return true;
+  const text = `${event.title} ${event.description ?? ''}`.toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+const sameSearchText = (a: Event, b: Event) =>
+  a.title === b.title
+  && (a.description ?? '') === (b.description ?? '')
+  && a.topics.length === b.topics.length
+  && a.topics.every(topic => b.topics.includes(topic));
+
+/**
+ * Whether a realtime change still belongs on a filtered map. A vibe the server already
+ * matched stays until its searchable text changes, so joins and other edits don't drop
+ * it over a match only the server's search can see.
+ */
+export const changeMatchesFilter = (event: Event, cached: Event | undefined, filter: VibeFilter) =>
+  (cached !== undefined && sameSearchText(cached, event)) || matchesFilter(event, filter);
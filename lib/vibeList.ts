@@ -0,0 +1,59 @@
+import type { Event } from '../types';
+import { isVibeHost, vibeEndTime, vibeStartTime } from './vibes';
+import { distanceMeters } from './geo';
+
+export type VibeSort = 'distance' | 'start' | 'ending' | 'participants';
+export type MembershipFilter = 'all' | 'joined' | 'hosted';
+export type TimeWindow = 'any' | 'now' | 'today' | 'week';
+
+// Topics and keywords are narrowed down server-side by the map's filter bar, which the
+// list shares; these are the list's own filters on top of that.
+export interface VibeListFilters {
+  membership: MembershipFilter;
+  window: TimeWindow;
+}
+
+export const DEFAULT_FILTERS: VibeListFilters = { membership: 'all', window: 'any' };
+
+// Choices for the map's "near me" filter; null shows everything in view.
+export const NEAR_ME_RADII_METERS = [250, 500, 1000, 2000, 5000];
+
+// Whether the vibe overlaps [now, end of window).
+const inWindow = (event: Event, timeWindow: TimeWindow, now: number) => {
+  if (timeWindow === 'any') return true;
+  if (timeWindow === 'now') return event.status === 'live';
+  const end = new Date(now);
+  if (timeWindow === 'today') end.setHours(24, 0, 0, 0);
+  else end.setDate(end.getDate() + 7);
+  return vibeStartTime(event) < end.getTime();
+};
+
+interface ListOptions {
+  sort: VibeSort;
+  filters: VibeListFilters;
+  userId: string;
+  userLocation: [number, number] | null;
+  now?: number;
+}
+
+/**
+ * Filters and orders the map's events for the list view. Without a location,
+ * "distance" falls back to start time. Ties keep start-time order.
+ */
+export const listVibes = (events: Event[], { sort, filters, userId, userLocation, now = Date.now() }: ListOptions): Event[] => {
+  const matches = events.filter(event =>
+    (filters.membership !== 'joined' || event.participants.includes(userId))
+    && (filters.membership !== 'hosted' || isVibeHost(event, userId))
+    && inWindow(event, filters.window, now));
+
+  const byStart = (a: Event, b: Event) => vibeStartTime(a) - vibeStartTime(b);
+  const compare: Record<VibeSort, (a: Event, b: Event) => number> = {
+    distance: (a, b) => userLocation
+      ? distanceMeters(userLocation, [a.lat, a.lng]) - distanceMeters(userLocation, [b.lat, b.lng])
+      : 0,
+    start: () => 0,
+    ending: (a, b) => vibeEndTime(a) - vibeEndTime(b),
+    participants: (a, b) => b.participants.length - a.participants.length,
+  };
+  return matches.sort((a, b) => compare[sort](a, b) || byStart(a, b));
+};
@@ -0,0 +1,43 @@
+import type { Event, EventFormValues, VibeTemplate } from '../types';
+import type { NewTemplate } from './repositories';
+
+type Location = { lat: number; lng: number };
+
+// The parts of a vibe worth reusing. The start time is always picked fresh.
+export type TemplateFields = Pick<EventFormValues, 'title' | 'description' | 'topics' | 'is_public' | 'requires_approval' | 'duration' | 'max_participants'>;
+
+// What the create form starts from. The host still places the pin on the map,
+// with `location` offered as the spot it was at before.
+export interface VibeDraft {
+  values: Partial<EventFormValues>;
+  location: Location | null;
+  source: string; // The past vibe or template's title
+}
+
+const pickFields = (source: TemplateFields): Required<TemplateFields> => ({
+  title: source.title,
+  description: source.description,
+  topics: [...source.topics],
+  is_public: source.is_public,
+  requires_approval: source.requires_approval ?? false,
+  duration: source.duration,
+  max_participants: source.max_participants ?? null,
+});
+
+export const draftFromVibe = (event: Event): VibeDraft => ({
+  values: pickFields(event),
+  location: { lat: event.lat, lng: event.lng },
+  source: event.title,
+});
+
+export const draftFromTemplate = (template: VibeTemplate): VibeDraft => ({
+  values: pickFields(template),
+  location: template.lat !== null && template.lng !== null ? { lat: template.lat, lng: template.lng } : null,
+  source: template.title,
+});
+
+export const newTemplate = (fields: TemplateFields, location: Location | null): NewTemplate => ({
+  ...pickFields(fields),
+  lat: location?.lat ?? null,
+  lng: location?.lng ?? null,
+});
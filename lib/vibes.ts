@@ -0,0 +1,119 @@
+import type { Event, VibeStatus } from '../types';
+
+// Mirrors vibe_ended_grace() in supabase/migrations.
+export const ENDED_GRACE_MINUTES = 60;
+
+// Vibes that still show on the map and can be joined.
+export const OPEN_STATUSES: VibeStatus[] = ['scheduled', 'live'];
+
+export const isOpenStatus = (status: VibeStatus) => OPEN_STATUSES.includes(status);
+
+export type VibeRole = 'host' | 'cohost' | 'member';
+
+export const vibeRole = (event: Pick<Event, 'creator_id' | 'cohost_ids'>, userId: string): VibeRole => {
+  if (event.creator_id === userId) return 'host';
+  return event.cohost_ids?.includes(userId) ? 'cohost' : 'member';
+};
+
+// Hosts and co-hosts share the controls for editing, extending and closing a vibe.
+export const isVibeHost = (event: Pick<Event, 'creator_id' | 'cohost_ids'>, userId: string) =>
+  vibeRole(event, userId) !== 'member';
+
+export const vibeStartTime = (event: Pick<Event, 'event_time'>) => new Date(event.event_time).getTime();
+
+export const vibeEndTime = (event: Pick<Event, 'event_time' | 'duration'>) =>
+  vibeStartTime(event) + event.duration * 60 * 1000;
+
+/**
+ * The status the clock says a vibe should have. Mirrors vibe_status_at() on the
+ * server, which is the source of truth; the in-memory backend uses this to run the
+ * same lifecycle offline.
+ */
+export const vibeStatusAt = (event: Pick<Event, 'event_time' | 'duration'>, at: number = Date.now()): VibeStatus => {
+  if (at < vibeStartTime(event)) return 'scheduled';
+  if (at < vibeEndTime(event)) return 'live';
+  if (at < vibeEndTime(event) + ENDED_GRACE_MINUTES * 60 * 1000) return 'ended';
+  return 'closed';
+};
+
+// How a vibe looks on the map at a given moment: on, starting within
+// STARTING_SOON_MINUTES, further off, or over. Vibes that are already closed or
+// cancelled are over whatever the moment.
+export type VibePhase = 'live' | 'soon' | 'upcoming' | 'over';
+
+export const STARTING_SOON_MINUTES = 60;
+
+export const vibePhaseAt = (event: Pick<Event, 'event_time' | 'duration' | 'status'>, at: number): VibePhase => {
+  if (!isOpenStatus(event.status)) return 'over';
+  const status = vibeStatusAt(event, at);
+  if (status === 'live') return 'live';
+  if (status !== 'scheduled') return 'over';
+  return vibeStartTime(event) - at <= STARTING_SOON_MINUTES * 60 * 1000 ? 'soon' : 'upcoming';
+};
+
+// Mirrors vibe_checkin_radius() and vibe_checkin_lead() in supabase/migrations.
+export const CHECK_IN_RADIUS_METERS = 150;
+export const CHECK_IN_LEAD_MINUTES = 30;
+
+// Check-in opens a little before the start and stays open until the vibe ends.
+export const isCheckInOpen = (event: Pick<Event, 'event_time' | 'status'>, at: number = Date.now()) =>
+  isOpenStatus(event.status) && at >= vibeStartTime(event) - CHECK_IN_LEAD_MINUTES * 60 * 1000;
+
+// Scheduling limits, mirrored by constraints in supabase/migrations.
+export const MIN_DURATION_MINUTES = 15;
+export const MAX_DURATION_MINUTES = 24 * 60;
+export const MAX_SCHEDULE_AHEAD_DAYS = 90;
+
+export const EXTEND_MINUTES = 15;
+
+// Extending can't take a vibe past MAX_DURATION_MINUTES.
+export const canExtendVibe = (event: Pick<Event, 'duration'>) => event.duration + EXTEND_MINUTES <= MAX_DURATION_MINUTES;
+
+/**
+ * Checks a proposed start and duration, returning a message for the user or null.
+ * `start` comes from a local date/time input, so all comparisons are in the user's
+ * own time zone.
+ */
+export const validateSchedule = (start: Date, durationMinutes: number, now: number = Date.now()): string | null => {
+  if (isNaN(start.getTime())) return 'Please pick a valid start date and time.';
+  // A minute of slack so "now" is still accepted after filling in the form.
+  if (start.getTime() < now - 60 * 1000) return 'The start time is in the past.';
+  if (start.getTime() > now + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return `Vibes can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead.`;
+  }
+  if (!Number.isFinite(durationMinutes) || durationMinutes < MIN_DURATION_MINUTES) {
+    return `A vibe must last at least ${MIN_DURATION_MINUTES} minutes.`;
+  }
+  if (durationMinutes > MAX_DURATION_MINUTES) return 'A vibe can last at most 24 hours.';
+  return null;
+};
+
+// What a host can change after creating a vibe, in the words shown to participants.
+const EDITABLE_FIELDS: [keyof Event, string][] = [
+  ['title', 'title'],
+  ['description', 'description'],
+  ['topics', 'topics'],
+  ['event_time', 'start time'],
+  ['duration', 'end time'],
+  ['lat', 'place'],
+  ['lng', 'place'],
+  ['is_public', 'visibility'],
+  ['max_participants', 'capacity'],
+];
+
+// The host-edited parts that differ between two versions of a vibe, e.g. ['start time', 'place'].
+export const describeVibeChanges = (before: Event, after: Event): string[] => {
+  const changed = EDITABLE_FIELDS
+    .filter(([field]) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(([, label]) => label);
+  return [...new Set(changed)];
+};
+
+// "7:30 PM" for today, otherwise "Fri, 24 Oct, 7:30 PM".
+export const formatVibeTime = (time: number) => {
+  const date = new Date(time);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
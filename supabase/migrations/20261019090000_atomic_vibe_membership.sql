@@ -0,0 +1,107 @@
+-- Atomic join/leave for vibes.
+--
+-- Clients used to read `participants`, modify the array locally and write the whole
+-- array back, so two simultaneous joins could overwrite each other. Membership now
+-- changes only through these functions, which lock the event row for the duration
+-- of the update.
+
+alter table public.events
+  add column if not exists max_participants integer
+  check (max_participants is null or max_participants > 0);
+
+-- Custom SQLSTATEs surfaced to the client as `error.code`:
+--   VX409  the vibe is full
+--   VX410  the vibe is no longer active
+
+create or replace function public.join_vibe(p_event_id bigint)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+  if v_event.status <> 'active' then
+    raise exception 'This vibe has ended' using errcode = 'VX410';
+  end if;
+  if auth.uid() = any(v_event.participants) then
+    return v_event;
+  end if;
+  if v_event.max_participants is not null
+     and coalesce(array_length(v_event.participants, 1), 0) >= v_event.max_participants then
+    raise exception 'This vibe is full' using errcode = 'VX409';
+  end if;
+
+  perform set_config('vibex.membership_change', 'on', true);
+  update public.events
+     set participants = array_append(participants, auth.uid())
+   where id = p_event_id
+  returning * into v_event;
+  return v_event;
+end;
+$$;
+
+create or replace function public.leave_vibe(p_event_id bigint)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  perform set_config('vibex.membership_change', 'on', true);
+  update public.events
+     set participants = array_remove(participants, auth.uid())
+   where id = p_event_id
+  returning * into v_event;
+  if not found then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+  return v_event;
+end;
+$$;
+
+-- Reject direct writes to `participants` so stale clients cannot reintroduce the race.
+-- A new vibe starts with just its creator, so nobody skips join_vibe's checks by
+-- inserting a full list.
+create or replace function public.guard_event_participants()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if coalesce(cardinality(new.participants), 0) > 0
+       and new.participants is distinct from array[new.creator_id] then
+      raise exception 'a new vibe can only have its creator as a participant'
+        using errcode = '42501';
+    end if;
+  elsif new.participants is distinct from old.participants
+        and coalesce(current_setting('vibex.membership_change', true), '') <> 'on' then
+    raise exception 'participants can only be changed through join_vibe/leave_vibe'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_event_participants on public.events;
+create trigger guard_event_participants
+  before insert or update on public.events
+  for each row execute function public.guard_event_participants();
+
+grant execute on function public.join_vibe(bigint) to authenticated;
+grant execute on function public.leave_vibe(bigint) to authenticated;
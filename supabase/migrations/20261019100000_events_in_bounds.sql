@@ -0,0 +1,33 @@
+-- Viewport-bounded event loading.
+--
+-- The map used to load every active event in the database and filter on the client.
+-- Events now carry a PostGIS point so the client can ask only for the area it shows.
+
+create extension if not exists postgis with schema extensions;
+
+alter table public.events
+  add column if not exists location extensions.geography(Point, 4326)
+  generated always as (extensions.st_setsrid(extensions.st_makepoint(lng, lat), 4326)::extensions.geography) stored;
+
+create index if not exists events_location_idx on public.events using gist (location);
+create index if not exists events_status_idx on public.events (status);
+
+-- Runs as the caller, so the usual row level security policies still apply.
+create or replace function public.active_events_in_bounds(
+  min_lat double precision,
+  min_lng double precision,
+  max_lat double precision,
+  max_lng double precision
+)
+returns setof public.events
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select *
+    from public.events
+   where status = 'active'
+     and location && st_makeenvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography;
+$$;
+
+grant execute on function public.active_events_in_bounds(double precision, double precision, double precision, double precision) to authenticated;
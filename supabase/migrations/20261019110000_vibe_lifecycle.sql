@@ -0,0 +1,145 @@
+-- Server-side vibe lifecycle.
+--
+--   scheduled -> live -> ended -> closed
+--        \________________________> cancelled
+--
+-- Time-driven transitions happen here rather than on each client's clock, so a vibe
+-- that nobody closes still leaves the map once it is over. Hosts can still close a
+-- vibe early (closed) or call off one that hasn't started (cancelled).
+
+alter table public.events drop constraint if exists events_status_check;
+
+-- Existing rows only knew 'active'; let the lifecycle function sort them out below.
+update public.events set status = 'live' where status = 'active';
+
+alter table public.events
+  add constraint events_status_check
+  check (status in ('scheduled', 'live', 'ended', 'closed', 'cancelled'));
+
+alter table public.events alter column status set default 'scheduled';
+
+-- How long an ended vibe stays readable before it is closed for good.
+create or replace function public.vibe_ended_grace()
+returns interval
+language sql
+immutable
+as $$ select interval '1 hour' $$;
+
+create or replace function public.vibe_status_at(
+  p_event_time timestamptz,
+  p_duration integer,
+  p_at timestamptz default now()
+)
+returns text
+language sql
+stable
+as $$
+  select case
+    when p_at < p_event_time then 'scheduled'
+    when p_at < p_event_time + make_interval(mins => p_duration) then 'live'
+    when p_at < p_event_time + make_interval(mins => p_duration) + public.vibe_ended_grace() then 'ended'
+    else 'closed'
+  end
+$$;
+
+-- Keep the status consistent with the clock whenever a vibe is created or re-timed.
+-- Closed and cancelled vibes are final and never come back.
+create or replace function public.sync_vibe_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT'
+     or (new.status = old.status
+         and old.status in ('scheduled', 'live', 'ended')
+         and (new.event_time, new.duration) is distinct from (old.event_time, old.duration)) then
+    new.status := public.vibe_status_at(new.event_time, new.duration);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_vibe_status on public.events;
+create trigger sync_vibe_status
+  before insert or update on public.events
+  for each row execute function public.sync_vibe_status();
+
+-- Moves every vibe whose time has come to its next state. Each row update is a
+-- normal UPDATE, so clients see the transition over realtime.
+create or replace function public.advance_vibe_lifecycle()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update public.events
+     set status = public.vibe_status_at(event_time, duration)
+   where status in ('scheduled', 'live', 'ended')
+     and status <> public.vibe_status_at(event_time, duration);
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+select public.advance_vibe_lifecycle();
+
+create extension if not exists pg_cron;
+select cron.schedule('advance-vibe-lifecycle', '* * * * *', 'select public.advance_vibe_lifecycle()');
+
+-- Membership and map queries now treat scheduled and live vibes as open.
+create or replace function public.join_vibe(p_event_id bigint)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+  if v_event.status not in ('scheduled', 'live') then
+    raise exception 'This vibe has ended' using errcode = 'VX410';
+  end if;
+  if auth.uid() = any(v_event.participants) then
+    return v_event;
+  end if;
+  if v_event.max_participants is not null
+     and coalesce(array_length(v_event.participants, 1), 0) >= v_event.max_participants then
+    raise exception 'This vibe is full' using errcode = 'VX409';
+  end if;
+
+  perform set_config('vibex.membership_change', 'on', true);
+  update public.events
+     set participants = array_append(participants, auth.uid())
+   where id = p_event_id
+  returning * into v_event;
+  return v_event;
+end;
+$$;
+
+create or replace function public.active_events_in_bounds(
+  min_lat double precision,
+  min_lng double precision,
+  max_lat double precision,
+  max_lng double precision
+)
+returns setof public.events
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select *
+    from public.events
+   where status in ('scheduled', 'live')
+     and location && st_makeenvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography;
+$$;
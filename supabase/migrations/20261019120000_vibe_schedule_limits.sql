@@ -0,0 +1,28 @@
+-- Vibes can now be scheduled for any future date, so bound what the client can send.
+-- Keep these in sync with the limits in lib/vibes.ts.
+
+alter table public.events drop constraint if exists events_duration_check;
+alter table public.events
+  add constraint events_duration_check
+  check (duration between 15 and 1440);
+
+create or replace function public.check_vibe_schedule()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- A little slack for clock skew and the time spent filling in the form.
+  if new.event_time < now() - interval '10 minutes' then
+    raise exception 'A vibe cannot start in the past' using errcode = '22007';
+  end if;
+  if new.event_time > now() + interval '90 days' then
+    raise exception 'A vibe can be scheduled at most 90 days ahead' using errcode = '22007';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_vibe_schedule on public.events;
+create trigger check_vibe_schedule
+  before insert or update of event_time on public.events
+  for each row execute function public.check_vibe_schedule();
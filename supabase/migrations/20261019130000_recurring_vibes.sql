@@ -0,0 +1,234 @@
+-- Recurring vibes.
+--
+-- A series holds the template and the recurrence rule. Only the next occurrence of a
+-- series exists as a row in `events`; when it ends or is skipped, the following one
+-- is created. Everything that works on events (joining, chat, the map) therefore
+-- works on occurrences unchanged, and the map only ever shows the next one.
+--
+-- `recurrence` is a JSON object matching RecurrenceRule in types.ts:
+--   { "frequency": "daily" | "weekly", "interval": 1, "weekdays": [1, 3], "until": "2026-12-31" }
+-- Weekdays use 0 = Sunday. Occurrences are computed in the series' own time zone so
+-- "every Friday at 7pm" stays at 7pm across DST changes.
+
+create table if not exists public.vibe_series (
+  id bigint generated by default as identity primary key,
+  creator_id uuid not null references public.profiles (id) on delete cascade,
+  title text not null,
+  description text not null default '',
+  topics text[] not null default '{}',
+  is_public boolean not null default true,
+  duration integer not null check (duration between 15 and 1440),
+  max_participants integer check (max_participants is null or max_participants > 0),
+  lat double precision not null,
+  lng double precision not null,
+  first_start timestamptz not null,
+  time_zone text not null default 'UTC',
+  recurrence jsonb not null,
+  skipped_starts timestamptz[] not null default '{}',
+  status text not null default 'active' check (status in ('active', 'cancelled')),
+  created_at timestamptz not null default now(),
+  -- Keeps the gap between occurrences within the 90 days a vibe may be scheduled
+  -- ahead. Mirrors maxRepeatInterval() in lib/recurrence.ts.
+  constraint vibe_series_interval_check check (
+    coalesce((recurrence->>'interval')::integer, 1)
+      <= case recurrence->>'frequency' when 'daily' then 90 else 12 end
+  )
+);
+
+alter table public.vibe_series enable row level security;
+
+create policy "Series are visible like their occurrences" on public.vibe_series
+  for select to authenticated using (is_public or creator_id = auth.uid());
+create policy "Creators add their own series" on public.vibe_series
+  for insert to authenticated with check (creator_id = auth.uid());
+create policy "Creators manage their own series" on public.vibe_series
+  for update to authenticated using (creator_id = auth.uid());
+
+alter table public.events
+  add column if not exists series_id bigint references public.vibe_series (id) on delete set null;
+
+create index if not exists events_series_id_idx on public.events (series_id);
+
+-- Occurrences are created by the triggers below, often from the lifecycle job, so a
+-- failed check would abort that whole statement. The next date of a series can also
+-- lie further out than a host could schedule by hand, so only the past check applies.
+create or replace function public.check_vibe_schedule()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- A little slack for clock skew and the time spent filling in the form.
+  if new.event_time < now() - interval '10 minutes' then
+    raise exception 'A vibe cannot start in the past' using errcode = '22007';
+  end if;
+  if tg_op = 'INSERT' then
+    if new.series_id is not null then
+      return new;
+    end if;
+  end if;
+  if new.event_time > now() + interval '90 days' then
+    raise exception 'A vibe can be scheduled at most 90 days ahead' using errcode = '22007';
+  end if;
+  return new;
+end;
+$$;
+
+-- The first start strictly after p_after that the rule allows, or null if the series
+-- has run out. Mirrors nextOccurrenceStart() in lib/recurrence.ts.
+create or replace function public.next_series_start(p_series public.vibe_series, p_after timestamptz)
+returns timestamptz
+language plpgsql
+stable
+as $$
+declare
+  v_local_first timestamp := p_series.first_start at time zone p_series.time_zone;
+  v_first_day date := v_local_first::date;
+  v_time time := v_local_first::time;
+  v_frequency text := p_series.recurrence->>'frequency';
+  v_interval integer := greatest(coalesce((p_series.recurrence->>'interval')::integer, 1), 1);
+  v_until date := nullif(p_series.recurrence->>'until', '')::date;
+  v_weekdays integer[] := coalesce(
+    nullif(array(select jsonb_array_elements_text(coalesce(p_series.recurrence->'weekdays', '[]'::jsonb))::integer), '{}'),
+    array[extract(dow from v_first_day)::integer]
+  );
+  v_day date := greatest(v_first_day, (p_after at time zone p_series.time_zone)::date);
+  v_candidate timestamptz;
+begin
+  for i in 0 .. 366 * v_interval loop
+    exit when v_until is not null and v_day > v_until;
+    if (v_frequency = 'daily' and (v_day - v_first_day) % v_interval = 0)
+       or (v_frequency = 'weekly'
+           and extract(dow from v_day)::integer = any(v_weekdays)
+           and ((date_trunc('week', v_day)::date - date_trunc('week', v_first_day)::date) / 7) % v_interval = 0) then
+      v_candidate := (v_day + v_time) at time zone p_series.time_zone;
+      if v_candidate > p_after and not (v_candidate = any(p_series.skipped_starts)) then
+        return v_candidate;
+      end if;
+    end if;
+    v_day := v_day + 1;
+  end loop;
+  return null;
+end;
+$$;
+
+-- Creates the series' next occurrence unless one is already scheduled or live.
+create or replace function public.materialize_next_occurrence(p_series_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_series public.vibe_series;
+  v_after timestamptz;
+  v_start timestamptz;
+begin
+  select * into v_series from public.vibe_series where id = p_series_id for update;
+  if not found or v_series.status <> 'active' then
+    return;
+  end if;
+  if exists (select 1 from public.events where series_id = p_series_id and status in ('scheduled', 'live')) then
+    return;
+  end if;
+
+  select greatest(
+           coalesce(max(event_time), v_series.first_start - interval '1 second'),
+           now()
+         )
+    into v_after
+    from public.events
+   where series_id = p_series_id
+     and status <> 'cancelled'; -- skipped starts are excluded by skipped_starts instead
+
+  v_start := public.next_series_start(v_series, v_after);
+  if v_start is null then
+    return;
+  end if;
+
+  insert into public.events (
+    title, description, topics, is_public, event_time, duration, max_participants,
+    lat, lng, creator_id, participants, series_id
+  ) values (
+    v_series.title, v_series.description, v_series.topics, v_series.is_public, v_start,
+    v_series.duration, v_series.max_participants, v_series.lat, v_series.lng,
+    v_series.creator_id, array[v_series.creator_id], v_series.id
+  );
+end;
+$$;
+
+create or replace function public.on_vibe_series_insert()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.materialize_next_occurrence(new.id);
+  return null;
+end;
+$$;
+
+drop trigger if exists on_vibe_series_insert on public.vibe_series;
+create trigger on_vibe_series_insert
+  after insert on public.vibe_series
+  for each row execute function public.on_vibe_series_insert();
+
+-- Editing a series updates its upcoming occurrence. If the schedule itself changed,
+-- that occurrence is replaced by the next one under the new rule. Ending a series
+-- calls off its upcoming occurrence; a live one is left to finish.
+create or replace function public.on_vibe_series_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'cancelled' or (new.first_start, new.time_zone, new.recurrence, new.duration)
+       is distinct from (old.first_start, old.time_zone, old.recurrence, old.duration) then
+    update public.events
+       set status = 'cancelled'
+     where series_id = new.id and status = 'scheduled';
+    perform public.materialize_next_occurrence(new.id);
+  else
+    update public.events
+       set title = new.title,
+           description = new.description,
+           topics = new.topics,
+           is_public = new.is_public,
+           max_participants = new.max_participants
+     where series_id = new.id and status in ('scheduled', 'live');
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists on_vibe_series_update on public.vibe_series;
+create trigger on_vibe_series_update
+  after update on public.vibe_series
+  for each row execute function public.on_vibe_series_update();
+
+-- When an occurrence ends, closes or is skipped, line up the next one. Runs as the
+-- owner because co-hosts may skip an occurrence but cannot update the series.
+create or replace function public.on_series_occurrence_done()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.series_id is not null
+     and old.status in ('scheduled', 'live')
+     and new.status not in ('scheduled', 'live') then
+    -- Only a host skipping this one occurrence counts as a skip; occurrences called
+    -- off because the series itself changed (nested trigger) must not be remembered.
+    if new.status = 'cancelled' and pg_trigger_depth() = 1 then
+      update public.vibe_series
+         set skipped_starts = array_append(skipped_starts, new.event_time)
+       where id = new.series_id;
+    end if;
+    perform public.materialize_next_occurrence(new.series_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists on_series_occurrence_done on public.events;
+create trigger on_series_occurrence_done
+  after update of status on public.events
+  for each row execute function public.on_series_occurrence_done();
@@ -0,0 +1,246 @@
+-- Invite-only vibes.
+--
+-- A vibe with is_public = false is visible to its creator, its participants and
+-- anyone who has redeemed one of its invites. Invites are short random codes that
+-- can be shared as a code or as a link (/?invite=CODE). The code itself is the
+-- secret, so it is only readable by the vibe's creator; guests only ever see the
+-- vibe it unlocked. Revoking an invite stops new redemptions and removes access
+-- for guests who came through it but have not joined.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- 8 characters from an alphabet without look-alikes (no 0/O, 1/I/L), about 10^12 codes.
+create or replace function public.generate_invite_code()
+returns text
+language plpgsql
+volatile
+set search_path = public, extensions
+as $$
+declare
+  v_alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_bytes bytea := gen_random_bytes(8);
+  v_code text := '';
+begin
+  for i in 0..7 loop
+    v_code := v_code || substr(v_alphabet, get_byte(v_bytes, i) % length(v_alphabet) + 1, 1);
+  end loop;
+  return v_code;
+end;
+$$;
+
+create table if not exists public.vibe_invites (
+  id bigint generated by default as identity primary key,
+  event_id bigint not null references public.events (id) on delete cascade,
+  code text not null unique default public.generate_invite_code(),
+  created_by uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists vibe_invites_event_id_idx on public.vibe_invites (event_id);
+
+-- Who can see a private vibe because they redeemed an invite to it.
+create table if not exists public.vibe_guests (
+  event_id bigint not null references public.events (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  invite_id bigint references public.vibe_invites (id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (event_id, user_id)
+);
+
+create or replace function public.is_vibe_creator(p_event_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.events where id = p_event_id and creator_id = auth.uid())
+$$;
+
+-- Security definer so the events policy below can consult vibe_guests without
+-- tripping over vibe_guests' own policies.
+create or replace function public.can_see_vibe(p_event public.events)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_event.is_public
+      or p_event.creator_id = auth.uid()
+      or auth.uid() = any(p_event.participants)
+      or exists (select 1 from public.vibe_guests g where g.event_id = p_event.id and g.user_id = auth.uid())
+$$;
+
+alter table public.vibe_invites enable row level security;
+alter table public.vibe_guests enable row level security;
+
+create policy "Creators see their vibes' invites" on public.vibe_invites
+  for select to authenticated using (public.is_vibe_creator(event_id));
+create policy "Creators invite to their own vibes" on public.vibe_invites
+  for insert to authenticated with check (public.is_vibe_creator(event_id) and created_by = auth.uid());
+create policy "Creators revoke their vibes' invites" on public.vibe_invites
+  for update to authenticated using (public.is_vibe_creator(event_id));
+
+create policy "Guests see their own access" on public.vibe_guests
+  for select to authenticated using (user_id = auth.uid() or public.is_vibe_creator(event_id));
+
+-- Replace whatever read policies events had with one that knows about invites. The
+-- map RPC runs as the caller and realtime checks the same policy, so private vibes
+-- never reach anyone who may not see them.
+alter table public.events enable row level security;
+
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname from pg_policies
+     where schemaname = 'public' and tablename = 'events' and cmd in ('SELECT', 'ALL')
+  loop
+    execute format('drop policy %I on public.events', v_policy.policyname);
+  end loop;
+end;
+$$;
+
+create policy "Vibes are visible to the public, members and invitees" on public.events
+  for select to authenticated using (public.can_see_vibe(events));
+create policy "Creators add their own vibes" on public.events
+  for insert to authenticated with check (creator_id = auth.uid());
+create policy "Creators manage their own vibes" on public.events
+  for update to authenticated using (creator_id = auth.uid());
+
+-- Series templates follow the same rule for the people who can see their occurrence.
+drop policy if exists "Series are visible like their occurrences" on public.vibe_series;
+create policy "Series are visible like their occurrences" on public.vibe_series
+  for select to authenticated using (
+    is_public
+    or creator_id = auth.uid()
+    or exists (select 1 from public.events e where e.series_id = vibe_series.id and public.can_see_vibe(e))
+  );
+
+create or replace function public.on_vibe_invite_revoked()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.revoked_at is null and new.revoked_at is not null then
+    delete from public.vibe_guests g
+     using public.events e
+     where g.invite_id = new.id
+       and e.id = g.event_id
+       and not (g.user_id = any(e.participants));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_vibe_invite_revoked on public.vibe_invites;
+create trigger on_vibe_invite_revoked
+  after update of revoked_at on public.vibe_invites
+  for each row execute function public.on_vibe_invite_revoked();
+
+-- Each occurrence of a series is a new event, so whoever could see the previous
+-- one keeps seeing the series without needing a fresh invite every week.
+create or replace function public.carry_series_guests()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.series_id is not null then
+    insert into public.vibe_guests (event_id, user_id, invite_id)
+    select distinct on (g.user_id) new.id, g.user_id, null
+      from public.vibe_guests g
+      join public.events e on e.id = g.event_id
+     where e.series_id = new.series_id and e.id <> new.id
+    on conflict (event_id, user_id) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists carry_series_guests on public.events;
+create trigger carry_series_guests
+  after insert on public.events
+  for each row execute function public.carry_series_guests();
+
+-- Trades a code for access to its vibe and returns the vibe, so the client can show
+-- it straight away. Codes are case-insensitive and tolerate stray spaces.
+create or replace function public.redeem_vibe_invite(p_code text)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.vibe_invites;
+  v_event public.events;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_invite
+    from public.vibe_invites
+   where code = upper(regexp_replace(p_code, '\s', '', 'g'))
+     and revoked_at is null;
+  if not found then
+    raise exception 'This invite is invalid or has been revoked' using errcode = 'VX404';
+  end if;
+
+  select * into v_event from public.events where id = v_invite.event_id;
+  if v_event.status not in ('scheduled', 'live') then
+    raise exception 'This vibe has ended' using errcode = 'VX410';
+  end if;
+
+  insert into public.vibe_guests (event_id, user_id, invite_id)
+  values (v_event.id, auth.uid(), v_invite.id)
+  on conflict (event_id, user_id) do nothing;
+  return v_event;
+end;
+$$;
+
+-- join_vibe runs as definer, so it has to check visibility itself.
+create or replace function public.join_vibe(p_event_id bigint)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found or not public.can_see_vibe(v_event) then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+  if v_event.status not in ('scheduled', 'live') then
+    raise exception 'This vibe has ended' using errcode = 'VX410';
+  end if;
+  if auth.uid() = any(v_event.participants) then
+    return v_event;
+  end if;
+  if v_event.max_participants is not null
+     and coalesce(array_length(v_event.participants, 1), 0) >= v_event.max_participants then
+    raise exception 'This vibe is full' using errcode = 'VX409';
+  end if;
+
+  perform set_config('vibex.membership_change', 'on', true);
+  update public.events
+     set participants = array_append(participants, auth.uid())
+   where id = p_event_id
+  returning * into v_event;
+  return v_event;
+end;
+$$;
+
+grant execute on function public.redeem_vibe_invite(text) to authenticated;
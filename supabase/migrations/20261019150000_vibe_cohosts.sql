@@ -0,0 +1,203 @@
+-- Co-hosts and ownership transfer.
+--
+-- `creator_id` is now "the current host" rather than "whoever created it": it can be
+-- handed to another participant, and passes on automatically when the host leaves.
+-- Co-hosts get the host's controls (edit, extend, close, invites) but cannot change
+-- roles. Roles only change through the functions below, like membership does.
+
+alter table public.events
+  add column if not exists cohost_ids uuid[] not null default '{}';
+
+create or replace function public.is_vibe_host(p_event_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.events
+     where id = p_event_id and (creator_id = auth.uid() or auth.uid() = any(cohost_ids))
+  )
+$$;
+
+drop policy if exists "Creators manage their own vibes" on public.events;
+create policy "Hosts manage their vibes" on public.events
+  for update to authenticated using (creator_id = auth.uid() or auth.uid() = any(cohost_ids));
+
+drop policy if exists "Creators see their vibes' invites" on public.vibe_invites;
+drop policy if exists "Creators invite to their own vibes" on public.vibe_invites;
+drop policy if exists "Creators revoke their vibes' invites" on public.vibe_invites;
+create policy "Hosts see their vibes' invites" on public.vibe_invites
+  for select to authenticated using (public.is_vibe_host(event_id));
+create policy "Hosts invite to their vibes" on public.vibe_invites
+  for insert to authenticated with check (public.is_vibe_host(event_id) and created_by = auth.uid());
+create policy "Hosts revoke their vibes' invites" on public.vibe_invites
+  for update to authenticated using (public.is_vibe_host(event_id));
+
+drop policy if exists "Guests see their own access" on public.vibe_guests;
+create policy "Guests see their own access" on public.vibe_guests
+  for select to authenticated using (user_id = auth.uid() or public.is_vibe_host(event_id));
+
+-- Reject direct writes to the roles, the same way guard_event_participants does for
+-- membership.
+create or replace function public.guard_event_roles()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.creator_id, new.cohost_ids) is distinct from (old.creator_id, old.cohost_ids)
+     and coalesce(current_setting('vibex.role_change', true), '') <> 'on' then
+    raise exception 'hosts can only be changed through set_vibe_cohost/transfer_vibe'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_event_roles on public.events;
+create trigger guard_event_roles
+  before update on public.events
+  for each row execute function public.guard_event_roles();
+
+-- Locks the vibe and checks that the caller is its host and the target a participant.
+create or replace function public.lock_vibe_for_role_change(p_event_id bigint, p_user_id uuid)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+  if v_event.creator_id <> auth.uid() then
+    raise exception 'Only the host can change roles' using errcode = '42501';
+  end if;
+  if not (p_user_id = any(v_event.participants)) then
+    raise exception 'That person is not in this vibe' using errcode = '22023';
+  end if;
+  return v_event;
+end;
+$$;
+
+create or replace function public.set_vibe_cohost(p_event_id bigint, p_user_id uuid, p_is_cohost boolean)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events := public.lock_vibe_for_role_change(p_event_id, p_user_id);
+begin
+  if p_user_id = v_event.creator_id then
+    return v_event;
+  end if;
+
+  perform set_config('vibex.role_change', 'on', true);
+  update public.events
+     set cohost_ids = case
+           when p_is_cohost then array_append(array_remove(cohost_ids, p_user_id), p_user_id)
+           else array_remove(cohost_ids, p_user_id)
+         end
+   where id = p_event_id
+  returning * into v_event;
+  return v_event;
+end;
+$$;
+
+-- A series belongs to whoever hosts its current occurrence, so the next occurrence
+-- (created with the series' creator_id) and the series controls follow a hand-over.
+create or replace function public.hand_over_series(p_event public.events)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.vibe_series
+     set creator_id = p_event.creator_id
+   where id = p_event.series_id
+     and creator_id is distinct from p_event.creator_id;
+$$;
+
+-- The previous host stays on as a co-host.
+create or replace function public.transfer_vibe(p_event_id bigint, p_user_id uuid)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events := public.lock_vibe_for_role_change(p_event_id, p_user_id);
+begin
+  if p_user_id = v_event.creator_id then
+    return v_event;
+  end if;
+
+  perform set_config('vibex.role_change', 'on', true);
+  update public.events
+     set creator_id = p_user_id,
+         cohost_ids = array_append(array_remove(array_remove(cohost_ids, p_user_id), creator_id), creator_id)
+   where id = p_event_id
+  returning * into v_event;
+  perform public.hand_over_series(v_event);
+  return v_event;
+end;
+$$;
+
+-- Leaving also gives up any role. A host who leaves hands the vibe to the longest
+-- serving co-host, or failing that to whoever joined first.
+create or replace function public.leave_vibe(p_event_id bigint)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+  v_remaining uuid[];
+  v_cohosts uuid[];
+  v_next_host uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+
+  v_remaining := array_remove(v_event.participants, auth.uid());
+  v_cohosts := array_remove(v_event.cohost_ids, auth.uid());
+  v_next_host := v_event.creator_id;
+  if v_event.creator_id = auth.uid() and coalesce(array_length(v_remaining, 1), 0) > 0 then
+    select coalesce(
+      (select c from unnest(v_cohosts) with ordinality as t(c, n) where c = any(v_remaining) order by n limit 1),
+      v_remaining[1]
+    ) into v_next_host;
+    v_cohosts := array_remove(v_cohosts, v_next_host);
+  end if;
+
+  perform set_config('vibex.membership_change', 'on', true);
+  perform set_config('vibex.role_change', 'on', true);
+  update public.events
+     set participants = v_remaining,
+         cohost_ids = v_cohosts,
+         creator_id = v_next_host
+   where id = p_event_id
+  returning * into v_event;
+  perform public.hand_over_series(v_event);
+  return v_event;
+end;
+$$;
+
+grant execute on function public.set_vibe_cohost(bigint, uuid, boolean) to authenticated;
+grant execute on function public.transfer_vibe(bigint, uuid) to authenticated;
@@ -0,0 +1,208 @@
+-- Approval-required vibes.
+--
+-- When `requires_approval` is set, join_vibe() refuses (VX428) and people ask to
+-- join instead. Hosts and co-hosts accept or decline; accepting adds the requester
+-- to `participants` under the same lock and capacity check as joining. Requests
+-- are published over realtime so both sides see decisions as they happen.
+
+alter table public.events
+  add column if not exists requires_approval boolean not null default false;
+alter table public.vibe_series
+  add column if not exists requires_approval boolean not null default false;
+
+-- Occurrences take the setting from their series, and follow later edits to it.
+create or replace function public.inherit_series_approval()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.series_id is not null then
+    select requires_approval into new.requires_approval from public.vibe_series where id = new.series_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists inherit_series_approval on public.events;
+create trigger inherit_series_approval
+  before insert on public.events
+  for each row execute function public.inherit_series_approval();
+
+create or replace function public.on_series_approval_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.events
+     set requires_approval = new.requires_approval
+   where series_id = new.id and status in ('scheduled', 'live');
+  return null;
+end;
+$$;
+
+drop trigger if exists on_series_approval_change on public.vibe_series;
+create trigger on_series_approval_change
+  after update of requires_approval on public.vibe_series
+  for each row execute function public.on_series_approval_change();
+
+create table if not exists public.vibe_join_requests (
+  event_id bigint not null references public.events (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'declined')),
+  created_at timestamptz not null default now(),
+  decided_at timestamptz,
+  decided_by uuid references public.profiles (id) on delete set null,
+  primary key (event_id, user_id)
+);
+
+create index if not exists vibe_join_requests_pending_idx
+  on public.vibe_join_requests (event_id) where status = 'pending';
+
+-- Requests are only written through the functions below.
+alter table public.vibe_join_requests enable row level security;
+
+create policy "Requesters and hosts see join requests" on public.vibe_join_requests
+  for select to authenticated using (user_id = auth.uid() or public.is_vibe_host(event_id));
+
+alter publication supabase_realtime add table public.vibe_join_requests;
+
+-- Asking again after being declined, or after leaving, puts the request back in the queue.
+create or replace function public.request_to_join_vibe(p_event_id bigint)
+returns public.vibe_join_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+  v_request public.vibe_join_requests;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id;
+  if not found or not public.can_see_vibe(v_event) then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+  if v_event.status not in ('scheduled', 'live') then
+    raise exception 'This vibe has ended' using errcode = 'VX410';
+  end if;
+  if auth.uid() = any(v_event.participants) then
+    raise exception 'You are already in this vibe' using errcode = '22023';
+  end if;
+
+  insert into public.vibe_join_requests (event_id, user_id)
+  values (p_event_id, auth.uid())
+  on conflict (event_id, user_id) do update
+     set status = 'pending', created_at = now(), decided_at = null, decided_by = null
+   where vibe_join_requests.status <> 'pending'
+  returning * into v_request;
+
+  if v_request is null then
+    select * into v_request from public.vibe_join_requests where event_id = p_event_id and user_id = auth.uid();
+  end if;
+  return v_request;
+end;
+$$;
+
+create or replace function public.decide_join_request(p_event_id bigint, p_user_id uuid, p_accept boolean)
+returns public.vibe_join_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+  v_request public.vibe_join_requests;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+  if not (v_event.creator_id = auth.uid() or auth.uid() = any(v_event.cohost_ids)) then
+    raise exception 'Only hosts can answer join requests' using errcode = '42501';
+  end if;
+
+  select * into v_request
+    from public.vibe_join_requests
+   where event_id = p_event_id and user_id = p_user_id and status = 'pending'
+     for update;
+  if not found then
+    raise exception 'There is no pending request from that person' using errcode = '22023';
+  end if;
+
+  if p_accept then
+    if v_event.status not in ('scheduled', 'live') then
+      raise exception 'This vibe has ended' using errcode = 'VX410';
+    end if;
+    if v_event.max_participants is not null
+       and coalesce(array_length(v_event.participants, 1), 0) >= v_event.max_participants then
+      raise exception 'This vibe is full' using errcode = 'VX409';
+    end if;
+    if not (p_user_id = any(v_event.participants)) then
+      perform set_config('vibex.membership_change', 'on', true);
+      update public.events
+         set participants = array_append(participants, p_user_id)
+       where id = p_event_id;
+    end if;
+  end if;
+
+  update public.vibe_join_requests
+     set status = case when p_accept then 'accepted' else 'declined' end,
+         decided_at = now(),
+         decided_by = auth.uid()
+   where event_id = p_event_id and user_id = p_user_id
+  returning * into v_request;
+  return v_request;
+end;
+$$;
+
+-- join_vibe() learns to send people to the queue.
+create or replace function public.join_vibe(p_event_id bigint)
+returns public.events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found or not public.can_see_vibe(v_event) then
+    raise exception 'Vibe % not found', p_event_id using errcode = 'P0002';
+  end if;
+  if v_event.status not in ('scheduled', 'live') then
+    raise exception 'This vibe has ended' using errcode = 'VX410';
+  end if;
+  if auth.uid() = any(v_event.participants) then
+    return v_event;
+  end if;
+  if v_event.requires_approval
+     and not (v_event.creator_id = auth.uid() or auth.uid() = any(v_event.cohost_ids)) then
+    raise exception 'This vibe needs the host''s approval to join' using errcode = 'VX428';
+  end if;
+  if v_event.max_participants is not null
+     and coalesce(array_length(v_event.participants, 1), 0) >= v_event.max_participants then
+    raise exception 'This vibe is full' using errcode = 'VX409';
+  end if;
+
+  perform set_config('vibex.membership_change', 'on', true);
+  update public.events
+     set participants = array_append(participants, auth.uid())
+   where id = p_event_id
+  returning * into v_event;
+  return v_event;
+end;
+$$;
+
+grant execute on function public.request_to_join_vibe(bigint) to authenticated;
+grant execute on function public.decide_join_request(bigint, uuid, boolean) to authenticated;
@@ -0,0 +1,5 @@
+-- The client restores the user's vibes on start and after reconnecting by asking for
+-- open vibes whose `participants` contain them (participants @> array[uid]).
+create index if not exists events_open_participants_idx
+  on public.events using gin (participants)
+  where status in ('scheduled', 'live');
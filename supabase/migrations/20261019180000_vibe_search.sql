@@ -0,0 +1,42 @@
+-- Topic filters and keyword search on the map.
+--
+-- Title and description are indexed for full-text search in a generated column, and
+-- active_events_in_bounds() takes an optional query and topic list. With neither it
+-- behaves as before, so callers that only pass bounds are unaffected.
+
+alter table public.events
+  add column if not exists search_document tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) stored;
+
+create index if not exists events_search_document_idx on public.events using gin (search_document);
+
+-- The old four-argument version would be ambiguous next to one with defaulted arguments.
+drop function if exists public.active_events_in_bounds(double precision, double precision, double precision, double precision);
+
+-- The query uses web search syntax: words, "quoted phrases", or and -exclusions.
+-- An event matches the topic filter when it has any of the topics.
+create or replace function public.active_events_in_bounds(
+  min_lat double precision,
+  min_lng double precision,
+  max_lat double precision,
+  max_lng double precision,
+  p_query text default null,
+  p_topics text[] default null
+)
+returns setof public.events
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select *
+    from public.events
+   where status in ('scheduled', 'live')
+     and location && st_makeenvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+     and (nullif(trim(p_query), '') is null or search_document @@ websearch_to_tsquery('english', p_query))
+     and (coalesce(cardinality(p_topics), 0) = 0 or topics && p_topics);
+$$;
+
+grant execute on function public.active_events_in_bounds(double precision, double precision, double precision, double precision, text, text[]) to authenticated;
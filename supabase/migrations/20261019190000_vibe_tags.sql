@@ -0,0 +1,220 @@
+-- User-defined tags.
+--
+-- `topics` on events and series used to hold one of seven fixed values. They now hold
+-- labels from vibe_tags: a curated base set plus tags anyone can add. New tags are
+-- pending until a moderator reviews them. A pending tag works on vibes straight away
+-- but is only suggested to its creator; approving it suggests it to everyone, and
+-- rejecting it strips it from open vibes and series and stops it being used again.
+
+create table if not exists public.vibe_tags (
+  label text primary key
+    check (char_length(label) <= 24 and label ~ '^[[:alnum:]][[:alnum:] -]*$'),
+  status text not null default 'pending' check (status in ('approved', 'pending', 'rejected')),
+  is_curated boolean not null default false,
+  usage_count integer not null default 0,
+  created_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  reviewed_by uuid references public.profiles (id) on delete set null,
+  reviewed_at timestamptz
+);
+
+-- Labels are unique regardless of case; this also serves prefix lookups.
+create unique index if not exists vibe_tags_lower_label_idx on public.vibe_tags (lower(label) text_pattern_ops);
+
+insert into public.vibe_tags (label, status, is_curated, created_by)
+select label, 'approved', true, null
+  from unnest(array['Food', 'Movies', 'Arts', 'Music', 'Sports', 'Tech', 'Social']) as label
+on conflict (label) do nothing;
+
+-- Whatever was already in use keeps working, with its count.
+insert into public.vibe_tags (label, status, created_by)
+select distinct topic, 'approved', null
+  from public.events, unnest(topics) as topic
+ where topic ~ '^[[:alnum:]][[:alnum:] -]*$' and char_length(topic) <= 24
+on conflict do nothing;
+
+update public.vibe_tags t
+   set usage_count = (
+     select count(*) from public.events e
+      where t.label = any(e.topics) and e.status in ('scheduled', 'live')
+   );
+
+-- Moderators are added by hand, e.g. from the SQL editor.
+create table if not exists public.tag_moderators (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  added_at timestamptz not null default now()
+);
+
+create or replace function public.is_tag_moderator()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.tag_moderators where user_id = auth.uid())
+$$;
+
+alter table public.vibe_tags enable row level security;
+alter table public.tag_moderators enable row level security;
+
+-- Tags are only written through the functions below.
+create policy "Approved tags, your own, and everything for moderators" on public.vibe_tags
+  for select to authenticated
+  using (status = 'approved' or created_by = auth.uid() or public.is_tag_moderator());
+
+create policy "Moderators see themselves" on public.tag_moderators
+  for select to authenticated using (user_id = auth.uid());
+
+-- Maps topics onto existing tags in their canonical spelling and drops duplicates.
+-- Unknown and rejected tags are refused rather than silently dropped.
+create or replace function public.normalize_vibe_topics()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_wanted integer;
+  v_topics text[];
+begin
+  if cardinality(new.topics) > 5 then
+    raise exception 'A vibe can have at most 5 tags' using errcode = 'VX422';
+  end if;
+
+  select count(distinct lower(trim(topic))) into v_wanted from unnest(new.topics) as topic;
+  select coalesce(array_agg(label order by first_seen), '{}') into v_topics
+    from (
+      select t.label, min(u.n) as first_seen
+        from unnest(new.topics) with ordinality as u(topic, n)
+        join public.vibe_tags t on lower(t.label) = lower(trim(u.topic)) and t.status <> 'rejected'
+       group by t.label
+    ) matched;
+  if cardinality(v_topics) < v_wanted then
+    raise exception 'That tag is not available' using errcode = 'VX422';
+  end if;
+
+  new.topics := v_topics;
+  return new;
+end;
+$$;
+
+drop trigger if exists normalize_vibe_topics on public.events;
+create trigger normalize_vibe_topics
+  before insert or update of topics on public.events
+  for each row execute function public.normalize_vibe_topics();
+
+drop trigger if exists normalize_vibe_topics on public.vibe_series;
+create trigger normalize_vibe_topics
+  before insert or update of topics on public.vibe_series
+  for each row execute function public.normalize_vibe_topics();
+
+-- usage_count is the number of open (scheduled or live) vibes carrying the tag, so it
+-- goes down again when a tag is removed or its vibe ends, closes or is deleted.
+create or replace function public.count_tag_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old_topics text[] := '{}';
+  v_new_topics text[] := '{}';
+begin
+  if tg_op <> 'INSERT' then
+    if old.status in ('scheduled', 'live') then
+      v_old_topics := old.topics;
+    end if;
+  end if;
+  if tg_op <> 'DELETE' then
+    if new.status in ('scheduled', 'live') then
+      v_new_topics := new.topics;
+    end if;
+  end if;
+
+  update public.vibe_tags
+     set usage_count = usage_count + 1
+   where label = any(v_new_topics) and not label = any(v_old_topics);
+  update public.vibe_tags
+     set usage_count = greatest(usage_count - 1, 0)
+   where label = any(v_old_topics) and not label = any(v_new_topics);
+  return null;
+end;
+$$;
+
+drop trigger if exists count_tag_usage on public.events;
+create trigger count_tag_usage
+  after insert or delete or update of topics, status on public.events
+  for each row execute function public.count_tag_usage();
+
+-- Returns the existing tag when the label is taken in any case, unless it was rejected.
+create or replace function public.create_vibe_tag(p_label text)
+returns public.vibe_tags
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_label text := regexp_replace(trim(p_label), '\s+', ' ', 'g');
+  v_tag public.vibe_tags;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+  if char_length(v_label) > 24 or v_label !~ '^[[:alnum:]][[:alnum:] -]*$' then
+    raise exception 'Tags are up to 24 letters, numbers, spaces or dashes' using errcode = 'VX422';
+  end if;
+
+  select * into v_tag from public.vibe_tags where lower(label) = lower(v_label);
+  if found then
+    if v_tag.status = 'rejected' then
+      raise exception 'That tag is not available' using errcode = 'VX422';
+    end if;
+    return v_tag;
+  end if;
+
+  insert into public.vibe_tags (label, created_by)
+  values (v_label, auth.uid())
+  returning * into v_tag;
+  return v_tag;
+end;
+$$;
+
+create or replace function public.moderate_vibe_tag(p_label text, p_approve boolean)
+returns public.vibe_tags
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tag public.vibe_tags;
+begin
+  if not public.is_tag_moderator() then
+    raise exception 'Only moderators can review tags' using errcode = '42501';
+  end if;
+
+  update public.vibe_tags
+     set status = case when p_approve then 'approved' else 'rejected' end,
+         reviewed_by = auth.uid(),
+         reviewed_at = now()
+   where label = p_label and not is_curated
+  returning * into v_tag;
+  if not found then
+    raise exception 'Tag % not found', p_label using errcode = 'P0002';
+  end if;
+
+  if not p_approve then
+    update public.vibe_series
+       set topics = array_remove(topics, p_label)
+     where p_label = any(topics) and status = 'active';
+    update public.events
+       set topics = array_remove(topics, p_label)
+     where p_label = any(topics) and status in ('scheduled', 'live');
+  end if;
+  return v_tag;
+end;
+$$;
+
+grant execute on function public.is_tag_moderator() to authenticated;
+grant execute on function public.create_vibe_tag(text) to authenticated;
+grant execute on function public.moderate_vibe_tag(text, boolean) to authenticated;
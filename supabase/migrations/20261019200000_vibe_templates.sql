@@ -0,0 +1,38 @@
+-- Vibe templates and "host again".
+--
+-- A template keeps what a host would otherwise retype for a similar vibe: title,
+-- description, tags and settings, and optionally the spot it is usually held at.
+-- Templates are private to their owner. Tags are checked when a vibe is created from
+-- one, so a tag rejected since then is refused at that point, not here.
+--
+-- "Host again" needs no table of its own: it reads the host's past vibes, which the
+-- index at the end keeps cheap.
+
+create table if not exists public.vibe_templates (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  title text not null,
+  description text not null default '',
+  topics text[] not null default '{}',
+  is_public boolean not null default true,
+  requires_approval boolean not null default false,
+  duration integer not null check (duration between 15 and 1440),
+  max_participants integer check (max_participants is null or max_participants > 0),
+  lat double precision,
+  lng double precision,
+  created_at timestamptz not null default now(),
+  check ((lat is null) = (lng is null))
+);
+
+create index if not exists vibe_templates_user_id_idx on public.vibe_templates (user_id, created_at desc);
+
+alter table public.vibe_templates enable row level security;
+
+create policy "Templates are private to their owner" on public.vibe_templates
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create index if not exists events_past_by_creator_idx
+  on public.events (creator_id, event_time desc)
+  where status in ('ended', 'closed', 'cancelled');
@@ -0,0 +1,100 @@
+-- Geofenced check-in.
+--
+-- Participants can opt in to checking in at a vibe. The client reads the device
+-- position once, when the user taps "Check in", and sends it along; it is compared
+-- with the vibe's location here and only the distance is kept. Within
+-- vibe_checkin_radius() the participant is "here", otherwise "on the way". Once
+-- someone has been "here", a later check-in from further away doesn't undo it.
+-- Check-ins are published over realtime so the participant list stays current.
+
+-- Mirrored by CHECK_IN_RADIUS_METERS and CHECK_IN_LEAD_MINUTES in lib/vibes.ts.
+create or replace function public.vibe_checkin_radius()
+returns double precision
+language sql
+immutable
+as $$ select 150::double precision $$;
+
+create or replace function public.vibe_checkin_lead()
+returns interval
+language sql
+immutable
+as $$ select interval '30 minutes' $$;
+
+create table if not exists public.vibe_checkins (
+  event_id bigint not null references public.events (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  status text not null check (status in ('here', 'on_the_way')),
+  distance_m double precision not null,
+  checked_in_at timestamptz,
+  updated_at timestamptz not null default now(),
+  primary key (event_id, user_id)
+);
+
+create or replace function public.is_vibe_participant(p_event_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.events where id = p_event_id and auth.uid() = any(participants))
+$$;
+
+-- Check-ins are only written through check_in_vibe().
+alter table public.vibe_checkins enable row level security;
+
+create policy "Participants see each other's check-ins" on public.vibe_checkins
+  for select to authenticated using (public.is_vibe_participant(event_id));
+
+alter publication supabase_realtime add table public.vibe_checkins;
+
+create or replace function public.check_in_vibe(p_event_id bigint, p_lat double precision, p_lng double precision)
+returns public.vibe_checkins
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_event public.events;
+  v_distance double precision;
+  v_check_in public.vibe_checkins;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_event from public.events where id = p_event_id;
+  if not found or not (auth.uid() = any(v_event.participants)) then
+    raise exception 'Only participants can check in' using errcode = '42501';
+  end if;
+  if v_event.status not in ('scheduled', 'live') then
+    raise exception 'This vibe has ended' using errcode = 'VX410';
+  end if;
+  if now() < v_event.event_time - public.vibe_checkin_lead() then
+    raise exception 'Check-in has not opened yet' using errcode = 'VX425';
+  end if;
+  if p_lat not between -90 and 90 or p_lng not between -180 and 180 then
+    raise exception 'Invalid position' using errcode = '22023';
+  end if;
+
+  v_distance := st_distance(v_event.location, st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography);
+
+  insert into public.vibe_checkins (event_id, user_id, status, distance_m, checked_in_at)
+  values (
+    p_event_id,
+    auth.uid(),
+    case when v_distance <= public.vibe_checkin_radius() then 'here' else 'on_the_way' end,
+    v_distance,
+    case when v_distance <= public.vibe_checkin_radius() then now() end
+  )
+  on conflict (event_id, user_id) do update
+     set status = case when vibe_checkins.status = 'here' then 'here' else excluded.status end,
+         distance_m = excluded.distance_m,
+         checked_in_at = coalesce(vibe_checkins.checked_in_at, excluded.checked_in_at),
+         updated_at = now()
+  returning * into v_check_in;
+  return v_check_in;
+end;
+$$;
+
+grant execute on function public.check_in_vibe(bigint, double precision, double precision) to authenticated;
@@ -0,0 +1,108 @@
+-- Regions.
+--
+-- The map used to open on IIT Gandhinagar for everyone and nothing stopped a vibe
+-- from being placed anywhere. A region now sets where the map opens, which tiles it
+-- draws and the area vibes may be created in. The client keeps the full settings in
+-- lib/regions.ts; this table mirrors the part the server enforces. The row marked
+-- is_default is the deployment's region and should match VIBEX_REGION; users can
+-- pick another one for themselves, but only one with an area, so picking a region
+-- never lifts the restriction.
+
+create table if not exists public.regions (
+  id text primary key,
+  name text not null,
+  center_lat double precision not null,
+  center_lng double precision not null,
+  area_radius_m double precision check (area_radius_m is null or area_radius_m > 0), -- null allows anywhere
+  is_default boolean not null default false
+);
+
+create unique index if not exists regions_one_default_idx on public.regions (is_default) where is_default;
+
+insert into public.regions (id, name, center_lat, center_lng, area_radius_m, is_default) values
+  ('iitgn', 'IIT Gandhinagar', 23.1925, 72.6844, 25000, true),
+  ('anywhere', 'Anywhere', 20, 0, null, false)
+on conflict (id) do nothing;
+
+alter table public.regions enable row level security;
+
+create policy "Regions are public" on public.regions
+  for select to authenticated using (true);
+
+alter table public.profiles
+  add column if not exists region_id text references public.regions (id) on delete set null;
+
+-- A user's own region, or the deployment default. A chosen region without an area
+-- is ignored unless it is the default.
+create or replace function public.region_for(p_user_id uuid)
+returns public.regions
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+    from public.regions
+   where (id = (select region_id from public.profiles where id = p_user_id) and area_radius_m is not null)
+      or is_default
+   order by is_default -- The user's own choice first
+   limit 1
+$$;
+
+-- Raises VX403 when the spot is outside the user's region.
+create or replace function public.check_spot_in_region(p_user_id uuid, p_lat double precision, p_lng double precision)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_region public.regions := public.region_for(p_user_id);
+begin
+  if v_region.area_radius_m is not null
+     and st_distance(
+           st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography,
+           st_setsrid(st_makepoint(v_region.center_lng, v_region.center_lat), 4326)::geography
+         ) > v_region.area_radius_m then
+    raise exception 'That spot is outside %', v_region.name using errcode = 'VX403';
+  end if;
+end;
+$$;
+
+-- New and moved vibes must lie in their host's region. Occurrences of a series are
+-- let through, since their spot was checked with the series.
+create or replace function public.check_vibe_region()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.series_id is not null then
+      return new;
+    end if;
+  end if;
+  perform public.check_spot_in_region(new.creator_id, new.lat, new.lng);
+  return new;
+end;
+$$;
+
+create or replace function public.check_series_region()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.check_spot_in_region(new.creator_id, new.lat, new.lng);
+  return new;
+end;
+$$;
+
+drop trigger if exists check_vibe_region on public.events;
+create trigger check_vibe_region
+  before insert or update of lat, lng on public.events
+  for each row execute function public.check_vibe_region();
+
+drop trigger if exists check_series_region on public.vibe_series;
+create trigger check_series_region
+  before insert or update of lat, lng on public.vibe_series
+  for each row execute function public.check_series_region();
@@ -0,0 +1,43 @@
+-- Activity heatmap.
+--
+-- Where vibes have happened, for a time window such as the last week or Friday nights.
+-- Only public vibes that went ahead count, and only their spot and head count are
+-- returned, so nothing here says who hosted or came. Weekdays and hours are read in
+-- the caller's time zone.
+
+create index if not exists events_held_by_time_idx
+  on public.events (event_time desc)
+  where status in ('live', 'ended', 'closed') and is_public;
+
+create or replace function public.vibe_activity_in_bounds(
+  min_lat double precision,
+  min_lng double precision,
+  max_lat double precision,
+  max_lng double precision,
+  p_since timestamptz,
+  p_weekdays integer[] default null, -- 0 = Sunday
+  p_from_hour integer default null,
+  p_to_hour integer default null,
+  p_time_zone text default 'UTC',
+  p_limit integer default 2000
+)
+returns table (lat double precision, lng double precision, weight integer)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select e.lat, e.lng, cardinality(e.participants)
+    from public.events e
+   where e.status in ('live', 'ended', 'closed')
+     and e.is_public
+     and e.event_time >= p_since
+     and e.location && st_makeenvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+     and (coalesce(cardinality(p_weekdays), 0) = 0
+          or extract(dow from e.event_time at time zone p_time_zone)::integer = any(p_weekdays))
+     and (p_from_hour is null or extract(hour from e.event_time at time zone p_time_zone) >= p_from_hour)
+     and (p_to_hour is null or extract(hour from e.event_time at time zone p_time_zone) < p_to_hour)
+   order by e.event_time desc
+   limit least(greatest(p_limit, 0), 5000);
+$$;
+
+grant execute on function public.vibe_activity_in_bounds(double precision, double precision, double precision, double precision, timestamptz, integer[], integer, integer, text, integer) to authenticated;
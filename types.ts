@@ -3,6 +3,13 @@ export interface Profile {
   username: string;
   bio: string;
   privacy: 'public' | 'community' | 'private';
+  region_id?: string | null; // Overrides the deployment's default region; see lib/regions.ts
+}
+
+// The minimal profile shape used for participant lists and joins
+export interface ProfileSummary {
+  id: string;
+  username: string;
 }
 
 // This is our app's user object, combining Supabase auth user and our public profile
@@ -19,7 +26,42 @@ export interface Note {
   user_id: string;
 }
 
-export type Topic = 'Food' | 'Movies' | 'Arts' | 'Music' | 'Sports' | 'Tech' | 'Social';
+// A lat/lng bounding box, in degrees
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// One past vibe on the activity heatmap, weighted by how many people came.
+export interface ActivityPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+// What the map is narrowed down to. An empty query or topic list means no filter.
+export interface VibeFilter {
+  query: string;
+  topics: Topic[];
+}
+
+// A tag label such as "Food" or "Hiking". The curated base set is seeded by the
+// vibe_tags migration; anyone can add more, which moderators then review.
+export type Topic = string;
+
+// Pending tags work on vibes straight away but are only suggested to others once approved.
+export type TagStatus = 'approved' | 'pending' | 'rejected';
+
+export interface Tag {
+  label: Topic;
+  status: TagStatus;
+  is_curated: boolean; // Part of the base set
+  usage_count: number; // Open vibes carrying it
+  created_by: string | null;
+  created_at: string;
+}
 
 export interface VibeMessage {
   id: number;
@@ -30,6 +72,10 @@ export interface VibeMessage {
   sender: { username: string }; // Joined from profiles table
 }
 
+// scheduled -> live -> ended -> closed, or cancelled before it starts. Transitions
+// are driven by the server; see supabase/migrations.
+export type VibeStatus = 'scheduled' | 'live' | 'ended' | 'closed' | 'cancelled';
+
 export interface Event {
   id: number;
   title: string;
@@ -40,8 +86,92 @@ export interface Event {
   is_public: boolean;
   event_time: string; // ISO String for the event start time
   duration: number; // Duration in minutes
-  status: 'active' | 'closed';
-  creator_id: string;
+  status: VibeStatus;
+  creator_id: string; // The current host, who may have taken over from the creator
   participants: string[]; // Array of user UUIDs
+  cohost_ids?: string[]; // Participants with the host's controls
+  max_participants?: number | null; // No limit when unset
+  series_id?: number | null; // Set when this is one occurrence of a recurring vibe
+  requires_approval?: boolean; // Joining sends the host a request instead
   creator: { username: string }; // Joined from profiles table
 }
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly';
+  interval: number; // Every N days or weeks
+  weekdays?: number[]; // Weekly only, 0 = Sunday. Defaults to the first start's weekday.
+  until?: string | null; // Last date (YYYY-MM-DD) an occurrence may fall on
+}
+
+// The template for a recurring vibe. Only its next occurrence exists as an Event.
+export interface VibeSeries {
+  id: number;
+  creator_id: string;
+  title: string;
+  description: string;
+  topics: Topic[];
+  is_public: boolean;
+  duration: number;
+  max_participants?: number | null;
+  requires_approval?: boolean;
+  lat: number;
+  lng: number;
+  first_start: string; // ISO String; also fixes the time of day of every occurrence
+  time_zone: string; // IANA zone the rule is evaluated in
+  recurrence: RecurrenceRule;
+  skipped_starts: string[]; // Occurrences the host called off
+  status: 'active' | 'cancelled';
+}
+
+// A shareable code that lets someone see and join an invite-only vibe
+export interface VibeInvite {
+  id: number;
+  event_id: number;
+  code: string;
+  created_at: string; // ISO String
+  revoked_at: string | null;
+}
+
+export type JoinRequestStatus = 'pending' | 'accepted' | 'declined';
+
+// Someone asking to join a vibe that requires the host's approval
+export interface JoinRequest {
+  event_id: number;
+  user_id: string;
+  status: JoinRequestStatus;
+  created_at: string; // ISO String
+}
+
+// "here" is only recorded once the device was within the check-in radius of the vibe.
+export type CheckInStatus = 'here' | 'on_the_way';
+
+// A participant's opt-in check-in at a vibe
+export interface VibeCheckIn {
+  event_id: number;
+  user_id: string;
+  status: CheckInStatus;
+  distance_m: number; // From the vibe, at the latest check-in
+  checked_in_at: string | null; // ISO String; when they were first within the radius
+  updated_at: string; // ISO String
+}
+
+// A host's saved starting point for new vibes. The time is always picked fresh.
+export interface VibeTemplate {
+  id: number;
+  user_id: string;
+  title: string;
+  description: string;
+  topics: Topic[];
+  is_public: boolean;
+  requires_approval: boolean;
+  duration: number;
+  max_participants: number | null;
+  lat: number | null; // Where it is usually held, if saved with a spot
+  lng: number | null;
+  created_at: string; // ISO String
+}
+
+// What the create/edit vibe form produces
+export type EventFormValues = Omit<Event, 'id' | 'creator' | 'creator_id' | 'lat' | 'lng' | 'participants' | 'cohost_ids' | 'status' | 'series_id'> & {
+  recurrence: RecurrenceRule | null;
+};
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND),
+        'process.env.VIBEX_REGION': JSON.stringify(env.VIBEX_REGION)
       },
       resolve: {
         alias: {